@@ -0,0 +1,79 @@
+import type { FuzzyDate, FuzzyDateOptions } from "../src/fuzzyDate";
+
+/*
+ * Throughput of FuzzyDate construction and padding on the calendar core, against the same FuzzyDate on Luxon
+ * Run with `npm run bench`. Every input is a different moment, so cached zone offsets only help as far as
+ * neighbouring dates share them. Both sides are checked to agree before they are timed.
+ */
+
+const ITERATIONS = 10000;
+const ZONES = [undefined, '+05:30', 'Europe/Paris', 'America/New_York'];
+
+type FuzzyDateClass = typeof FuzzyDate;
+
+/**
+ * Load a fresh copy of FuzzyDate, optionally on top of another calendar module
+ */
+function loadFuzzyDate(calendar?: string): FuzzyDateClass {
+  let loaded!: FuzzyDateClass;
+  jest.isolateModules(() => {
+    if (calendar) {
+      jest.doMock('../src/calendar', () => jest.requireActual(calendar));
+    }
+    loaded = require('../src/fuzzyDate').FuzzyDate;
+  });
+  return loaded;
+}
+
+/**
+ * Spread the inputs over several centuries, down to the minute, so no two of them are the same
+ */
+function getInputs(zone?: string): FuzzyDateOptions[] {
+  return Array.from({ length: ITERATIONS }, (_, index) => ({
+    year: 1800 + index % 400,
+    month: index % 12 + 1,
+    day: index % 28 + 1,
+    hour: 8 + index % 12,
+    minute: index % 59,
+    zone
+  }));
+}
+
+function measure(run: (options: FuzzyDateOptions) => unknown, inputs: FuzzyDateOptions[]): number {
+  for (const options of inputs.slice(0, ITERATIONS / 10)) {
+    run(options);
+  }
+  const start = performance.now();
+  for (const options of inputs) {
+    run(options);
+  }
+  return inputs.length / (performance.now() - start) * 1000;
+}
+
+function report(name: string, current: number, luxon: number): void {
+  const format = (value: number) => `${Math.round(value).toLocaleString('en-US').padStart(10)} ops/s`;
+  process.stdout.write(`${name.padEnd(32)}${format(luxon)}  ->${format(current)}  ${(current / luxon).toFixed(1)}x\n`);
+}
+
+describe("FuzzyDate benchmark", () => {
+  const current = loadFuzzyDate();
+  const luxon = loadFuzzyDate('./luxonCalendar');
+
+  test.each(ZONES)("should measure construction and padding in %s", zone => {
+    const inputs = getInputs(zone);
+    for (const options of inputs.slice(0, 100)) {
+      expect(new current(options).toEpochRange()).toEqual(new luxon(options).toEpochRange());
+    }
+
+    const name = zone ?? 'floating';
+    report(`construction (${name})`, measure(options => new current(options), inputs), measure(options => new luxon(options), inputs));
+
+    const currentDates = new Map(inputs.map(options => [options, new current(options)]));
+    const luxonDates = new Map(inputs.map(options => [options, new luxon(options)]));
+    report(
+      `padding (${name})`,
+      measure(options => currentDates.get(options)?.toEpochRange(), inputs),
+      measure(options => luxonDates.get(options)?.toEpochRange(), inputs)
+    );
+  });
+});
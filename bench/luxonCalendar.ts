@@ -0,0 +1,156 @@
+import { DateTime, IANAZone } from "luxon";
+import type { DurationOptions, PreciseDateOptions, PreciseDurationOptions } from "../src/fuzzyDate";
+
+/*
+ * Calendar arithmetic behind FuzzyDate as it was built on Luxon, kept as the baseline of the benchmarks
+ * It exports the same functions as src/calendar.ts, so FuzzyDate can be loaded on top of either.
+ * A zone is either undefined for floating wall-clock time, 'UTC', a "±HH:MM" offset or an IANA name.
+ * Floating time is computed as UTC, so the results never depend on the zone of the process.
+ */
+
+function toLuxonZone(zone?: string): string {
+  if (zone === undefined) {
+    return 'utc';
+  }
+  return /^[+-]/.test(zone) ? `UTC${zone}` : zone;
+}
+
+function toLuxonObject(options: PreciseDateOptions) {
+  return {
+    year: options.year,
+    month: options.month,
+    day: options.day,
+    hour: options.hour,
+    minute: options.minute,
+    second: options.second,
+    millisecond: options.millisecond
+  };
+}
+
+function fromLuxonDateTime(dt: DateTime): PreciseDateOptions {
+  return {
+    year: dt.year,
+    month: dt.month,
+    day: dt.day,
+    hour: dt.hour,
+    minute: dt.minute,
+    second: dt.second,
+    millisecond: dt.millisecond
+  };
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  return IANAZone.isValidZone(zone);
+}
+
+/**
+ * Get the IANA name of the zone the system runs in
+ */
+export function getSystemZone(): string {
+  return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Check whether the options name a date and time that exists on the proleptic Gregorian calendar
+ */
+export function isValidDateTime(options: PreciseDateOptions): boolean {
+  const object = toLuxonObject(options);
+  return Object.values(object).every(Number.isInteger) && DateTime.fromObject(object, { zone: 'utc' }).isValid;
+}
+
+/**
+ * Convert an ISO week date to a calendar date
+ */
+export function fromWeekDate(weekYear: number, week: number, weekday: number): { year: number; month: number; day: number } {
+  // January 4th is always in the first week of the week-year
+  const date = new Date(0);
+  date.setUTCFullYear(weekYear, 0, 4);
+  const firstMonday = 4 - (date.getUTCDay() + 6) % 7;
+  date.setUTCFullYear(weekYear, 0, firstMonday + (week - 1) * 7 + weekday - 1);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Convert a calendar date to an ISO week date
+ */
+export function toWeekDate(year: number, month: number, day: number): { weekYear: number; week: number; weekday: number } {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  const weekday = (date.getUTCDay() + 6) % 7 + 1;
+
+  // The Thursday of a week decides its week-year
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const weekYear = date.getUTCFullYear();
+  const dayOfYear = Math.round((date.getTime() - new Date(0).setUTCFullYear(weekYear, 0, 1)) / 86400000);
+  return { weekYear, week: Math.floor(dayOfYear / 7) + 1, weekday };
+}
+
+/**
+ * Get the number of ISO weeks in a week-year, 52 or 53
+ */
+export function getWeeksInYear(weekYear: number): number {
+  // December 28th is always in the last week of its year
+  return toWeekDate(weekYear, 12, 28).week;
+}
+
+/**
+ * Add a duration to wall-clock options, clamping to the end of shorter months
+ */
+export function plus(options: PreciseDateOptions, duration: DurationOptions): PreciseDateOptions {
+  return fromLuxonDateTime(DateTime.fromObject(toLuxonObject(options), { zone: 'utc' }).plus(duration));
+}
+
+/**
+ * Subtract a duration from wall-clock options, clamping to the end of shorter months
+ */
+export function minus(options: PreciseDateOptions, duration: DurationOptions): PreciseDateOptions {
+  return fromLuxonDateTime(DateTime.fromObject(toLuxonObject(options), { zone: 'utc' }).minus(duration));
+}
+
+/**
+ * Convert wall-clock options in a zone to milliseconds since the epoch
+ * Wall-clock times skipped by a DST transition are moved forward by the length of the transition.
+ */
+export function toEpochMilliseconds(options: PreciseDateOptions, zone?: string): number {
+  if (zone === undefined) {
+    // setUTCFullYear keeps years 0-99 as-is, unlike Date.UTC
+    const date = new Date(0);
+    date.setUTCFullYear(options.year, options.month - 1, options.day);
+    date.setUTCHours(options.hour, options.minute, options.second, options.millisecond);
+    return date.getTime();
+  }
+  return DateTime.fromObject(toLuxonObject(options), { zone: toLuxonZone(zone) }).toMillis();
+}
+
+/**
+ * Convert milliseconds since the epoch to wall-clock options in a zone
+ */
+export function fromEpochMilliseconds(milliseconds: number, zone?: string): PreciseDateOptions {
+  return fromLuxonDateTime(DateTime.fromMillis(milliseconds, { zone: toLuxonZone(zone) }));
+}
+
+/**
+ * Get the offset from UTC of a zone at a moment, in minutes
+ */
+export function getOffsetMinutes(milliseconds: number, zone?: string): number {
+  return DateTime.fromMillis(milliseconds, { zone: toLuxonZone(zone) }).offset;
+}
+
+/**
+ * Break the time between two moments down into calendar units, counted on the wall clock of a zone
+ */
+export function diff(from: number, to: number, zone?: string): PreciseDurationOptions {
+  const luxonZone = toLuxonZone(zone);
+  const duration = DateTime.fromMillis(to, { zone: luxonZone })
+    .diff(DateTime.fromMillis(from, { zone: luxonZone }), ['years', 'months', 'days', 'hours', 'minutes', 'seconds', 'milliseconds']);
+
+  return {
+    years: duration.years,
+    months: duration.months,
+    days: duration.days,
+    hours: duration.hours,
+    minutes: duration.minutes,
+    seconds: duration.seconds,
+    milliseconds: duration.milliseconds
+  };
+}
@@ -0,0 +1,6 @@
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    testMatch: ['**/bench/**/*.bench.ts'],
+    collectCoverage: false,
+  };
@@ -1,3 +1,6 @@
+// Run away from UTC, so that anything depending on the zone of the system shows up
+process.env.TZ = 'Asia/Kolkata';
+
 module.exports = {
     preset: 'ts-jest',
     testEnvironment: 'node',
@@ -5,4 +8,4 @@ module.exports = {
     collectCoverage: true,
     coverageDirectory: 'coverage',
     coverageReporters: ['text', 'lcov'],
-  };
\ No newline at end of file
+  };
@@ -0,0 +1,34 @@
+import dayjs, { Dayjs } from "dayjs";
+import { FuzzyDate, FuzzyDatePrecision } from "../fuzzyDate";
+import { formatOffset } from "../util";
+
+/**
+ * Create a FuzzyDate from a Day.js object, keeping the fields down to the given precision
+ * The FuzzyDate takes the UTC offset of the Day.js object.
+ */
+export function fromDayjs(value: Dayjs, precision: FuzzyDatePrecision): FuzzyDate {
+  return FuzzyDate.fromDate(value.toDate(), precision, { zone: formatOffset(value.utcOffset()) });
+}
+
+/**
+ * Get the earliest possible moment of a FuzzyDate as a Day.js object in the zone of the system
+ * Floating dates are read as UTC.
+ */
+export function toDayjsEarliest(date: FuzzyDate): Dayjs {
+  return dayjs(date.toEpochRange().earliest);
+}
+
+/**
+ * Get the latest possible moment of a FuzzyDate as a Day.js object in the zone of the system
+ * Floating dates are read as UTC.
+ */
+export function toDayjsLatest(date: FuzzyDate): Dayjs {
+  return dayjs(date.toEpochRange().latest);
+}
+
+/**
+ * Get the earliest and latest possible moments of a FuzzyDate as Day.js objects
+ */
+export function toDayjsInterval(date: FuzzyDate): { start: Dayjs; end: Dayjs } {
+  return { start: toDayjsEarliest(date), end: toDayjsLatest(date) };
+}
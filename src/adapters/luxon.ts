@@ -0,0 +1,45 @@
+import { DateTime, Interval } from "luxon";
+import { FuzzyDate, FuzzyDatePrecision } from "../fuzzyDate";
+import { formatOffset } from "../util";
+
+/**
+ * Create a FuzzyDate from a Luxon DateTime, keeping the fields down to the given precision
+ * The FuzzyDate takes the zone of the DateTime.
+ */
+export function fromLuxon(value: DateTime, precision: FuzzyDatePrecision): FuzzyDate {
+  const zone = value.zone.isUniversal ? formatOffset(value.offset) : value.zoneName ?? undefined;
+  return FuzzyDate.fromDate(value.toJSDate(), precision, { zone });
+}
+
+/**
+ * Get the earliest possible moment of a FuzzyDate as a Luxon DateTime in its zone
+ * Floating dates are read as UTC.
+ */
+export function toLuxonEarliest(date: FuzzyDate): DateTime {
+  return DateTime.fromMillis(date.toEpochRange().earliest, { zone: toLuxonZone(date) });
+}
+
+/**
+ * Get the latest possible moment of a FuzzyDate as a Luxon DateTime in its zone
+ * Floating dates are read as UTC.
+ */
+export function toLuxonLatest(date: FuzzyDate): DateTime {
+  return DateTime.fromMillis(date.toEpochRange().latest, { zone: toLuxonZone(date) });
+}
+
+/**
+ * Get the range of a FuzzyDate as a Luxon Interval in its zone
+ * Luxon intervals are half-open, so the interval ends 1 millisecond after the latest padding.
+ */
+export function toLuxonInterval(date: FuzzyDate): Interval {
+  const { earliest, latest } = date.toEpochRange();
+  const zone = toLuxonZone(date);
+  return Interval.fromDateTimes(DateTime.fromMillis(earliest, { zone }), DateTime.fromMillis(latest + 1, { zone }));
+}
+
+function toLuxonZone(date: FuzzyDate): string {
+  if (date.zone === undefined) {
+    return 'utc';
+  }
+  return /^[+-]/.test(date.zone) ? `UTC${date.zone}` : date.zone;
+}
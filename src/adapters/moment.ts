@@ -0,0 +1,39 @@
+import moment, { Moment } from "moment";
+import { getOffsetMinutes } from "../calendar";
+import { FuzzyDate, FuzzyDatePrecision } from "../fuzzyDate";
+import { formatOffset } from "../util";
+
+/**
+ * Create a FuzzyDate from a Moment, keeping the fields down to the given precision
+ * The FuzzyDate takes the UTC offset of the Moment.
+ */
+export function fromMoment(value: Moment, precision: FuzzyDatePrecision): FuzzyDate {
+  return FuzzyDate.fromDate(value.toDate(), precision, { zone: formatOffset(value.utcOffset()) });
+}
+
+/**
+ * Get the earliest possible moment of a FuzzyDate as a Moment at the offset of its zone
+ * Floating dates are read as UTC.
+ */
+export function toMomentEarliest(date: FuzzyDate): Moment {
+  return toMoment(date.toEpochRange().earliest, date.zone);
+}
+
+/**
+ * Get the latest possible moment of a FuzzyDate as a Moment at the offset of its zone
+ * Floating dates are read as UTC.
+ */
+export function toMomentLatest(date: FuzzyDate): Moment {
+  return toMoment(date.toEpochRange().latest, date.zone);
+}
+
+/**
+ * Get the earliest and latest possible moments of a FuzzyDate as Moments
+ */
+export function toMomentInterval(date: FuzzyDate): { start: Moment; end: Moment } {
+  return { start: toMomentEarliest(date), end: toMomentLatest(date) };
+}
+
+function toMoment(milliseconds: number, zone?: string): Moment {
+  return moment(milliseconds).utcOffset(getOffsetMinutes(milliseconds, zone));
+}
@@ -0,0 +1,361 @@
+import type { DurationOptions, PreciseDateOptions, PreciseDurationOptions } from "./fuzzyDate";
+
+/*
+ * Calendar arithmetic behind FuzzyDate
+ * A zone is either undefined for floating wall-clock time, 'UTC', a "±HH:MM" offset or an IANA name.
+ * Floating time is computed as UTC, so the results never depend on the zone of the process.
+ *
+ * Dates follow the proleptic Gregorian calendar with astronomical year numbering, so year 0 is 1 BC.
+ * Only the offsets of IANA zones come from the runtime, through Intl.DateTimeFormat.
+ */
+
+const MILLISECONDS_PER_MINUTE = 60 * 1000;
+const MILLISECONDS_PER_HOUR = 60 * MILLISECONDS_PER_MINUTE;
+const MILLISECONDS_PER_DAY = 24 * MILLISECONDS_PER_HOUR;
+
+// Moments further than 100,000,000 days from the epoch are out of reach of Date and Intl
+const MAX_EPOCH_MILLISECONDS = 100000000 * MILLISECONDS_PER_DAY;
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Days from 0000-03-01, the start of a 400-year cycle counted from March, to 1970-01-01
+const EPOCH_DAY_OFFSET = 719468;
+const DAYS_IN_400_YEARS = 146097;
+
+// Offsets can only change on a whole second, so they are cached per zone and second, up to a bound
+const OFFSET_CACHE_SIZE = 4096;
+
+// Names of UTC that some runtimes resolve to rather than "UTC", such as "Etc/UTC" or "GMT"
+const UTC_ALIAS = /^(Etc\/)?(UTC|UCT|Universal|Zulu|Greenwich|GMT([+-]?0)?)$/i;
+
+interface ZoneReader {
+  formatter: Intl.DateTimeFormat;
+  offsets: Map<number, number>;
+}
+
+const zoneReaders = new Map<string, ZoneReader>();
+
+function isLeapYear(year: number): boolean {
+  return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return month === 2 && isLeapYear(year) ? 29 : DAYS_IN_MONTH[month - 1];
+}
+
+function isIntegerBetween(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Count the days from 1970-01-01 to a calendar date
+ * Days past the end of the month roll over into the following months.
+ */
+function toEpochDays(year: number, month: number, day: number): number {
+  // Counting years from March puts the leap day at the end of the year
+  const marchYear = month <= 2 ? year - 1 : year;
+  const era = Math.floor(marchYear / 400);
+  const yearOfEra = marchYear - era * 400;
+  const dayOfYear = Math.floor((153 * ((month + 9) % 12) + 2) / 5) + day - 1;
+  const dayOfEra = yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100) + dayOfYear;
+  return era * DAYS_IN_400_YEARS + dayOfEra - EPOCH_DAY_OFFSET;
+}
+
+/**
+ * Get the calendar date a number of days after 1970-01-01
+ */
+function fromEpochDays(days: number): { year: number; month: number; day: number } {
+  const shifted = days + EPOCH_DAY_OFFSET;
+  const era = Math.floor(shifted / DAYS_IN_400_YEARS);
+  const dayOfEra = shifted - era * DAYS_IN_400_YEARS;
+  const yearOfEra = Math.floor(
+    (dayOfEra - Math.floor(dayOfEra / 1460) + Math.floor(dayOfEra / 36524) - Math.floor(dayOfEra / 146096)) / 365
+  );
+  const dayOfYear = dayOfEra - (yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+  const monthFromMarch = Math.floor((5 * dayOfYear + 2) / 153);
+  const month = (monthFromMarch + 2) % 12 + 1;
+  return {
+    year: era * 400 + yearOfEra + (month <= 2 ? 1 : 0),
+    month,
+    day: dayOfYear - Math.floor((153 * monthFromMarch + 2) / 5) + 1
+  };
+}
+
+/**
+ * Get the ISO weekday of a number of days after 1970-01-01, from 1 for Monday to 7 for Sunday
+ */
+function getEpochWeekday(days: number): number {
+  // 1970-01-01 was a Thursday
+  return ((days + 3) % 7 + 7) % 7 + 1;
+}
+
+function getTimeOfDay(options: PreciseDateOptions): number {
+  return options.hour * MILLISECONDS_PER_HOUR + options.minute * MILLISECONDS_PER_MINUTE + options.second * 1000 + options.millisecond;
+}
+
+/**
+ * Read wall-clock options as milliseconds since the epoch, as if they were UTC
+ */
+function toLocalMilliseconds(options: PreciseDateOptions): number {
+  return toEpochDays(options.year, options.month, options.day) * MILLISECONDS_PER_DAY + getTimeOfDay(options);
+}
+
+function fromLocalMilliseconds(milliseconds: number): PreciseDateOptions {
+  const days = Math.floor(milliseconds / MILLISECONDS_PER_DAY);
+  const time = milliseconds - days * MILLISECONDS_PER_DAY;
+  return {
+    ...fromEpochDays(days),
+    hour: Math.floor(time / MILLISECONDS_PER_HOUR),
+    minute: Math.floor(time % MILLISECONDS_PER_HOUR / MILLISECONDS_PER_MINUTE),
+    second: Math.floor(time % MILLISECONDS_PER_MINUTE / 1000),
+    millisecond: time % 1000
+  };
+}
+
+/**
+ * Get the offset of a "±HH:MM" zone in minutes, or undefined for any other zone
+ */
+function getFixedOffset(zone?: string): number | undefined {
+  if (zone === undefined || zone === 'UTC') {
+    return 0;
+  }
+  const offset = /^([+-])(\d{2}):(\d{2})$/.exec(zone);
+  if (!offset) {
+    return undefined;
+  }
+  const [, sign, hours, minutes] = offset;
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+}
+
+function getZoneReader(zone: string): ZoneReader {
+  let reader = zoneReaders.get(zone);
+  if (!reader) {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      era: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    reader = { formatter, offsets: new Map() };
+    zoneReaders.set(zone, reader);
+  }
+  return reader;
+}
+
+/**
+ * Get the offset from UTC of an IANA zone at a moment in minutes, or NaN for moments out of reach
+ */
+function getZoneOffset(milliseconds: number, zone: string): number {
+  if (!(Math.abs(milliseconds) <= MAX_EPOCH_MILLISECONDS)) {
+    return NaN;
+  }
+
+  // The wall clock is read to the second, so the moment is truncated to the second as well
+  const second = milliseconds - (milliseconds % 1000 + 1000) % 1000;
+  const { formatter, offsets } = getZoneReader(zone);
+  const cached = offsets.get(second);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  for (const { type, value } of formatter.formatToParts(second)) {
+    parts[type] = value;
+  }
+  const year = Number(parts.year);
+  const wallClock = toLocalMilliseconds({
+    year: parts.era === 'BC' ? 1 - year : year,
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: 0
+  });
+  const offset = (wallClock - second) / MILLISECONDS_PER_MINUTE;
+
+  if (offsets.size >= OFFSET_CACHE_SIZE) {
+    offsets.clear();
+  }
+  offsets.set(second, offset);
+  return offset;
+}
+
+/**
+ * Get the canonical name of an IANA zone as the runtime resolves it, such as "Europe/Paris" for "europe/paris",
+ * with every alias of UTC as "UTC", or undefined when the runtime doesn't know the zone
+ */
+export function getCanonicalTimeZone(zone: string): string | undefined {
+  try {
+    const name = getZoneReader(zone).formatter.resolvedOptions().timeZone;
+    return UTC_ALIAS.test(name) ? 'UTC' : name;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether the options name a date and time that exists on the proleptic Gregorian calendar
+ */
+export function isValidDateTime(options: PreciseDateOptions): boolean {
+  const { year, month, day, hour, minute, second, millisecond } = options;
+  return Number.isInteger(year)
+    && isIntegerBetween(month, 1, 12)
+    && isIntegerBetween(day, 1, getDaysInMonth(year, month))
+    && isIntegerBetween(hour, 0, 23)
+    && isIntegerBetween(minute, 0, 59)
+    && isIntegerBetween(second, 0, 59)
+    && isIntegerBetween(millisecond, 0, 999)
+    && Math.abs(toLocalMilliseconds(options)) <= MAX_EPOCH_MILLISECONDS;
+}
+
+/**
+ * Convert an ISO week date to a calendar date
+ */
+export function fromWeekDate(weekYear: number, week: number, weekday: number): { year: number; month: number; day: number } {
+  // January 4th is always in the first week of the week-year
+  const january4 = toEpochDays(weekYear, 1, 4);
+  const firstMonday = january4 - getEpochWeekday(january4) + 1;
+  return fromEpochDays(firstMonday + (week - 1) * 7 + weekday - 1);
+}
+
+/**
+ * Convert a calendar date to an ISO week date
+ */
+export function toWeekDate(year: number, month: number, day: number): { weekYear: number; week: number; weekday: number } {
+  const days = toEpochDays(year, month, day);
+  const weekday = getEpochWeekday(days);
+
+  // The Thursday of a week decides its week-year
+  const thursday = days + 4 - weekday;
+  const weekYear = fromEpochDays(thursday).year;
+  return { weekYear, week: Math.floor((thursday - toEpochDays(weekYear, 1, 1)) / 7) + 1, weekday };
+}
+
+/**
+ * Get the number of ISO weeks in a week-year, 52 or 53
+ */
+export function getWeeksInYear(weekYear: number): number {
+  // December 28th is always in the last week of its year
+  return toWeekDate(weekYear, 12, 28).week;
+}
+
+/**
+ * Add a duration to wall-clock options, clamping to the end of shorter months
+ * Years and months are added first, then the day is clamped, then the rest rolls over into the following units.
+ */
+export function plus(options: PreciseDateOptions, duration: DurationOptions): PreciseDateOptions {
+  const { years = 0, months = 0, weeks = 0, days = 0, hours = 0, minutes = 0, seconds = 0, milliseconds = 0 } = duration;
+
+  const monthIndex = options.year * 12 + options.month - 1 + years * 12 + months;
+  const year = Math.floor(monthIndex / 12);
+  const month = monthIndex - year * 12 + 1;
+  const day = Math.min(options.day, getDaysInMonth(year, month)) + weeks * 7 + days;
+
+  return fromLocalMilliseconds(
+    toEpochDays(year, month, day) * MILLISECONDS_PER_DAY
+    + getTimeOfDay(options)
+    + hours * MILLISECONDS_PER_HOUR + minutes * MILLISECONDS_PER_MINUTE + seconds * 1000 + milliseconds
+  );
+}
+
+/**
+ * Subtract a duration from wall-clock options, clamping to the end of shorter months
+ */
+export function minus(options: PreciseDateOptions, duration: DurationOptions): PreciseDateOptions {
+  const negated: DurationOptions = {};
+  for (const [unit, value] of Object.entries(duration) as [keyof DurationOptions, number][]) {
+    negated[unit] = -value;
+  }
+  return plus(options, negated);
+}
+
+/**
+ * Convert wall-clock options in a zone to milliseconds since the epoch
+ * Wall-clock times repeated by a DST transition resolve to their occurrence at preferredOffset, in minutes,
+ * and otherwise to their first occurrence.
+ * Wall-clock times skipped by a DST transition are moved forward by the length of the transition.
+ */
+export function toEpochMilliseconds(options: PreciseDateOptions, zone?: string, preferredOffset?: number): number {
+  const local = toLocalMilliseconds(options);
+  const fixedOffset = getFixedOffset(zone);
+  if (fixedOffset !== undefined) {
+    return local - fixedOffset * MILLISECONDS_PER_MINUTE;
+  }
+
+  // A day on either side is far enough to see the offsets before and after any transition
+  const offsetBefore = getZoneOffset(local - MILLISECONDS_PER_DAY, zone as string);
+  const offsetAfter = getZoneOffset(local + MILLISECONDS_PER_DAY, zone as string);
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => local - offset * MILLISECONDS_PER_MINUTE)
+    .filter(milliseconds => getZoneOffset(milliseconds, zone as string) * MILLISECONDS_PER_MINUTE === local - milliseconds);
+
+  const preferred = candidates.find(milliseconds => local - milliseconds === (preferredOffset ?? NaN) * MILLISECONDS_PER_MINUTE);
+  return preferred ?? (candidates.length > 0 ? Math.min(...candidates) : local - offsetBefore * MILLISECONDS_PER_MINUTE);
+}
+
+/**
+ * Convert milliseconds since the epoch to wall-clock options in a zone
+ */
+export function fromEpochMilliseconds(milliseconds: number, zone?: string): PreciseDateOptions {
+  return fromLocalMilliseconds(milliseconds + Math.round(getOffsetMinutes(milliseconds, zone) * MILLISECONDS_PER_MINUTE));
+}
+
+/**
+ * Get the offset from UTC of a zone at a moment, in minutes
+ */
+export function getOffsetMinutes(milliseconds: number, zone?: string): number {
+  return getFixedOffset(zone) ?? getZoneOffset(milliseconds, zone as string);
+}
+
+/**
+ * Break the time between two moments down into calendar units, counted on the wall clock of a zone
+ * Years, months and days are counted as far as they fit, then the rest is split into time units.
+ * When `to` is before `from`, every unit is negative.
+ */
+export function diff(from: number, to: number, zone?: string): PreciseDurationOptions {
+  if (to < from) {
+    const duration = diff(to, from, zone);
+    for (const unit of Object.keys(duration) as (keyof PreciseDurationOptions)[]) {
+      duration[unit] = duration[unit] === 0 ? 0 : -(duration[unit] as number);
+    }
+    return duration;
+  }
+
+  const start = fromEpochMilliseconds(from, zone);
+  const end = fromEpochMilliseconds(to, zone);
+  const calendar = { years: 0, months: 0, days: 0 };
+  let cursor = start;
+  let reached = from;
+
+  const count = (unit: keyof typeof calendar, estimate: number) => {
+    calendar[unit] = estimate;
+    let next = plus(start, calendar);
+    let moment = toEpochMilliseconds(next, zone);
+    while (moment > to) {
+      calendar[unit]--;
+      next = plus(start, calendar);
+      moment = toEpochMilliseconds(next, zone);
+    }
+    cursor = next;
+    reached = moment;
+  };
+
+  count('years', end.year - cursor.year);
+  count('months', (end.year - cursor.year) * 12 + end.month - cursor.month);
+  count('days', toEpochDays(end.year, end.month, end.day) - toEpochDays(cursor.year, cursor.month, cursor.day));
+
+  const rest = to - reached;
+  return {
+    ...calendar,
+    hours: Math.floor(rest / MILLISECONDS_PER_HOUR),
+    minutes: Math.floor(rest % MILLISECONDS_PER_HOUR / MILLISECONDS_PER_MINUTE),
+    seconds: Math.floor(rest % MILLISECONDS_PER_MINUTE / 1000),
+    milliseconds: rest % 1000
+  };
+}
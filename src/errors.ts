@@ -0,0 +1,111 @@
+import type { FuzzyDateOptions } from "./fuzzyDate";
+
+/**
+ * Kind of problem with the input of a FuzzyDate:
+ * - hierarchy: fields aren't filled in hierarchical order
+ * - calendar: every field is within its bounds, but the date doesn't exist, such as February 30
+ * - format: a string or zone can't be read
+ * - range: a field is outside its bounds, such as month 13, or a FuzzyDateRange starts after its end
+ */
+export type FuzzyDateIssueCode = 'hierarchy' | 'calendar' | 'format' | 'range';
+
+/**
+ * Problem with the input of a FuzzyDate, as reported by FuzzyDate.validate and FuzzyDate.safeParse
+ */
+export interface FuzzyDateIssue {
+  code: FuzzyDateIssueCode;
+  message: string;
+  /**
+   * Option the problem is about, such as "month" or "zone"
+   */
+  field?: keyof FuzzyDateOptions;
+  /**
+   * Offset of the problem in the parsed string, counting from 0
+   */
+  position?: number;
+}
+
+/**
+ * Where in the input of a FuzzyDate an error was found, as far as it is known
+ */
+export interface FuzzyDateErrorLocation {
+  field?: keyof FuzzyDateOptions;
+  position?: number;
+}
+
+export class FuzzyDateError extends Error {
+  /**
+   * Kind of problem with the input, or undefined when the error doesn't come from invalid input
+   */
+  readonly code?: FuzzyDateIssueCode;
+  readonly field?: keyof FuzzyDateOptions;
+  readonly position?: number;
+
+  constructor(message: string, code?: FuzzyDateIssueCode, location: FuzzyDateErrorLocation = {}) {
+    super(message);
+    this.name = 'FuzzyDateError';
+    this.code = code;
+    this.field = location.field;
+    this.position = location.position;
+  }
+}
+
+export class FuzzyDateHierarchyError extends FuzzyDateError {
+  constructor(field?: keyof FuzzyDateOptions) {
+    super(`FuzzyDate fields must be filled in order${field ? `, so ${field} can't be set here` : ''}`, 'hierarchy', { field });
+    this.name = 'FuzzyDateHierarchyError';
+  }
+}
+
+export class FuzzyDateCalendarError extends FuzzyDateError {
+  constructor(code: 'calendar' | 'range' = 'calendar', field?: keyof FuzzyDateOptions) {
+    super(
+      code === 'range' ? `FuzzyDate ${field} is out of range` : 'FuzzyDate must represent a valid calendar date',
+      code,
+      { field }
+    );
+    this.name = 'FuzzyDateCalendarError';
+  }
+}
+
+export class FuzzyDateZoneError extends FuzzyDateError {
+  constructor() {
+    super('FuzzyDate zone must be an IANA time zone name, a UTC offset or "floating"', 'format', { field: 'zone' });
+    this.name = 'FuzzyDateZoneError';
+  }
+}
+
+export class FuzzyDatePrecisionError extends FuzzyDateError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FuzzyDatePrecisionError';
+  }
+}
+
+export class FuzzyDateToleranceError extends FuzzyDateError {
+  constructor(message = 'FuzzyDate tolerance must be a duration in non-negative whole units') {
+    super(message, 'range', { field: 'tolerance' });
+    this.name = 'FuzzyDateToleranceError';
+  }
+}
+
+export class FuzzyDateRangeError extends FuzzyDateError {
+  constructor() {
+    super('FuzzyDateRange start must not be after its end', 'range');
+    this.name = 'FuzzyDateRangeError';
+  }
+}
+
+export class FuzzyDateDeserializationError extends FuzzyDateError {
+  constructor(message: string, location: FuzzyDateErrorLocation = {}) {
+    super(message, 'format', location);
+    this.name = 'FuzzyDateDeserializationError';
+  }
+}
+
+export class FuzzyDatePatternError extends FuzzyDateError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FuzzyDatePatternError';
+  }
+}
@@ -0,0 +1,137 @@
+import { plus, toEpochMilliseconds } from "./calendar";
+import type { DurationOptions, FuzzyDate, FuzzyDatePrecision, PreciseDateOptions } from "./fuzzyDate";
+import { isEmpty } from "./util";
+
+/**
+ * Level of detail of localized output, following the date styles of Intl.DateTimeFormat
+ * - short: "3/22/2023, 10:30 AM"
+ * - medium: "Mar 22, 2023, 10:30 AM"
+ * - long: "March 22, 2023 at 10:30 AM GMT+1"
+ * - full: "Wednesday, March 22, 2023 at 10:30 AM Central European Standard Time"
+ */
+export type FuzzyDateFormatStyle = 'short' | 'medium' | 'long' | 'full';
+
+/**
+ * Options for formatting a FuzzyDate for display
+ */
+export interface FuzzyDateFormatOptions {
+  /**
+   * BCP 47 locale, defaults to the locale of the runtime
+   */
+  locale?: string;
+  /**
+   * Defaults to 'medium'
+   */
+  style?: FuzzyDateFormatStyle;
+  /**
+   * Whether to use a 12-hour clock, defaults to the convention of the locale
+   */
+  hour12?: boolean;
+}
+
+interface StyleFormats {
+  month: 'numeric' | 'short' | 'long';
+  weekday?: 'long';
+  timeZoneName?: 'short' | 'long';
+}
+
+/**
+ * Distance from the first to the last year, month or day shown for precisions that have no field of their own
+ */
+const SPANS: Partial<Record<FuzzyDatePrecision, DurationOptions>> = {
+  millennium: { years: 999 },
+  century: { years: 99 },
+  decade: { years: 9 },
+  half: { months: 5 },
+  quarter: { months: 2 },
+  week: { days: 6 }
+};
+
+const STYLES: Record<FuzzyDateFormatStyle, StyleFormats> = {
+  short: { month: 'numeric' },
+  medium: { month: 'short' },
+  long: { month: 'long', timeZoneName: 'short' },
+  full: { month: 'long', weekday: 'long', timeZoneName: 'long' }
+};
+
+/**
+ * Format the fields of a FuzzyDate with Intl.DateTimeFormat, leaving out the fields it doesn't have
+ * @param start The fields of the date padded to its first unit, without tolerance
+ */
+export function formatLocalized(date: FuzzyDate, start: PreciseDateOptions, options: FuzzyDateFormatOptions): string {
+  const style = STYLES[options.style ?? 'medium'];
+  const span = SPANS[date.getPrecision()];
+
+  // Week dates show as their calendar day, while coarser spans such as decades, quarters or weeks show their first and last unit
+  const { year, month, day } = !isEmpty(date.week) || span ? start : date;
+
+  // fractionalSecondDigits is missing from the ES2015 typings, though supported by every current runtime
+  const intlOptions: Intl.DateTimeFormatOptions & { fractionalSecondDigits?: 3 } = {
+    calendar: 'gregory',
+    timeZone: 'UTC',
+    year: 'numeric',
+    hour12: options.hour12
+  };
+
+  // Early years carry their era, so that year -43 reads "44 BC" and "May 12 AD" isn't taken for a day
+  if (year < 100) {
+    intlOptions.era = 'short';
+  }
+  if (!isEmpty(month) && span?.years === undefined) {
+    intlOptions.month = style.month;
+  }
+  if (!isEmpty(day) && span?.years === undefined && span?.months === undefined) {
+    intlOptions.day = 'numeric';
+    intlOptions.weekday = span ? undefined : style.weekday;
+  }
+  if (!isEmpty(date.hour)) {
+    intlOptions.hour = 'numeric';
+    if (date.zone !== undefined) {
+      intlOptions.timeZoneName = style.timeZoneName;
+    }
+  }
+  if (!isEmpty(date.minute)) {
+    intlOptions.minute = '2-digit';
+  }
+  if (!isEmpty(date.second)) {
+    intlOptions.second = '2-digit';
+  }
+  if (!isEmpty(date.millisecond)) {
+    intlOptions.fractionalSecondDigits = 3;
+  }
+
+  // The wall-clock fields are rendered as UTC so that they show as written, whatever the zone
+  const wallClock = toEpochMilliseconds(start);
+  const formatter = new Intl.DateTimeFormat(options.locale, intlOptions);
+
+  if (span) {
+    // formatRange is missing from the ES2015 typings as well
+    return (formatter as Intl.DateTimeFormat & { formatRange(start: number, end: number): string })
+      .formatRange(wallClock, toEpochMilliseconds(plus(start, span)));
+  }
+
+  return formatter
+    .formatToParts(wallClock)
+    .map(part => part.type === 'timeZoneName'
+      ? getZoneName(date.zone as string, toEpochMilliseconds(start, date.zone, date.offset), options.locale, intlOptions.timeZoneName)
+      : part.value)
+    .join('');
+}
+
+/**
+ * Localized name of a zone at a moment, such as "GMT+1" or "Central European Standard Time" for Europe/Paris
+ */
+function getZoneName(
+  zone: string,
+  moment: number,
+  locale: string | undefined,
+  timeZoneName: Intl.DateTimeFormatOptions['timeZoneName']
+): string {
+  if (zone.startsWith('+') || zone.startsWith('-')) {
+    return `GMT${zone}`;
+  }
+
+  const parts = new Intl.DateTimeFormat(locale, { timeZone: zone, timeZoneName })
+    .formatToParts(moment);
+  return (parts.find(part => part.type === 'timeZoneName') as Intl.DateTimeFormatPart).value;
+}
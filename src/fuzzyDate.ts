@@ -1,32 +1,67 @@
-import { DateTime } from "luxon";
-import { isEmpty } from "./util";
+import {
+  diff,
+  fromEpochMilliseconds,
+  fromWeekDate,
+  getCanonicalTimeZone,
+  getOffsetMinutes,
+  getWeeksInYear,
+  isValidDateTime,
+  minus,
+  plus,
+  toEpochMilliseconds,
+  toWeekDate
+} from "./calendar";
+import {
+  FuzzyDateCalendarError,
+  FuzzyDateDeserializationError,
+  FuzzyDateError,
+  FuzzyDateHierarchyError,
+  FuzzyDateIssue,
+  FuzzyDateIssueCode,
+  FuzzyDatePrecisionError,
+  FuzzyDateToleranceError,
+  FuzzyDateZoneError
+} from "./errors";
+import { FuzzyDateFormatOptions, formatLocalized } from "./format";
+import { FuzzyDateRange } from "./fuzzyDateRange";
+import { HumanParseOptions, HumanParseResult, parseHumanDate } from "./humanParser";
+import { formatPattern, parsePattern } from "./pattern";
+import { AllenRelation, getPossibleRelations } from "./relation";
+import {
+  DURATION_UNITS,
+  SUB_YEAR_CODE_SOURCE,
+  formatIsoDuration,
+  formatOffset,
+  isEmpty,
+  isNegative,
+  parseIsoDuration,
+  parseOffset
+} from "./util";
 
-export class FuzzyDateError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'FuzzyDateError';
-  }
-}
+export * from "./errors";
 
-export class FuzzyDateHierarchyError extends FuzzyDateError {
-  constructor() {
-    super('FuzzyDate fields must be filled in order');
-    this.name = 'FuzzyDateHierarchyError';
-  }
-}
+/**
+ * EDTF qualifier of a date component
+ * - 'uncertain': "?", the source isn't sure of the value, such as "probably 1850"
+ * - 'approximate': "~", the value is an estimate, such as "circa 1850"
+ * - 'uncertainApproximate': "%", both at once
+ */
+export type FuzzyDateQualifier = 'uncertain' | 'approximate' | 'uncertainApproximate';
 
-export class FuzzyDateCalendarError extends FuzzyDateError {
-  constructor() {
-    super('FuzzyDate must represent a valid calendar date');
-    this.name = 'FuzzyDateCalendarError';
-  }
+/**
+ * Qualifiers of the year, month and day of a FuzzyDate, each only allowed when that field is set
+ */
+export interface FuzzyDateQualifiers {
+  year?: FuzzyDateQualifier;
+  month?: FuzzyDateQualifier;
+  day?: FuzzyDateQualifier;
 }
 
-export class FuzzyDateDeserializationError extends FuzzyDateError {
-  constructor(message: string) {
-    super(message);
-    this.name = 'FuzzyDateDeserializationError';
-  }
+/**
+ * Margin around a FuzzyDate, such as ±5 years for "circa 1850"
+ */
+export interface FuzzyDateTolerance {
+  plusMinus: DurationOptions;
 }
 
 /**
@@ -34,12 +69,57 @@ export class FuzzyDateDeserializationError extends FuzzyDateError {
  */
 export interface FuzzyDateOptions {
   year: number;
+  /**
+   * Number of trailing digits of year left unspecified, as the X digits of EDTF:
+   * 1 for a decade such as 198X, 2 for a century such as 18XX, 3 for a millennium such as 1XXX.
+   * Those digits of year must be 0, and no other field can follow.
+   * A negative year counts back from its last year, so -40 with 1 digit is "-4X", the years -49 to -40,
+   * and -0 is "-0X", the years -9 to -1 before "0X".
+   */
+  unspecifiedYearDigits?: number;
+  /**
+   * Half of the year, 1 or 2, in place of any finer field
+   */
+  half?: number;
+  /**
+   * Quarter of the year, from 1 to 4, in place of any finer field
+   */
+  quarter?: number;
   month?: number;
   day?: number;
+  /**
+   * ISO week of the week-year given by year, in place of month and day
+   */
+  week?: number;
+  /**
+   * ISO day of the week, from 1 for Monday to 7 for Sunday, refining week
+   */
+  weekday?: number;
   hour?: number;
   minute?: number;
   second?: number;
   millisecond?: number;
+  /**
+   * Doubt about the year, month or day, which leaves the range of the date unchanged
+   */
+  qualifiers?: FuzzyDateQualifiers;
+  /**
+   * Margin that widens the padding on both sides, keeping the precision and fields as they are
+   */
+  tolerance?: FuzzyDateTolerance;
+  /**
+   * Time zone of the wall-clock fields:
+   * - an IANA time zone name, e.g. "Europe/Paris"
+   * - a fixed UTC offset, e.g. "+05:30", "-08:00" or "Z"
+   * - "floating" or omitted for wall-clock time not tied to any zone, which is read as UTC when compared
+   */
+  zone?: string;
+  /**
+   * Offset from UTC in minutes at the start of the date, to pick between the two occurrences of a wall-clock time
+   * repeated by a DST transition, such as the +01:00 of "2023-10-29T02:30+01:00[Europe/Paris]".
+   * An offset that matches neither occurrence is ignored, and repeated times otherwise start at their first occurrence.
+   */
+  offset?: number;
 }
 
 export interface PreciseDateOptions extends FuzzyDateOptions {
@@ -52,74 +132,552 @@ export interface PreciseDateOptions extends FuzzyDateOptions {
   millisecond: number;
 }
 
+/**
+ * Options describing a duration in calendar units
+ */
+export interface DurationOptions {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+}
+
+export interface PreciseDurationOptions extends DurationOptions {
+  years: number;
+  months: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+/**
+ * Time elapsed between two moments, both as a total and as a calendar breakdown
+ * Both are negative when the second moment is before the first one.
+ */
+export interface ElapsedTime {
+  milliseconds: number;
+  calendar: PreciseDurationOptions;
+}
+
+/**
+ * Shortest and longest possible time elapsed between two FuzzyDates
+ */
+export interface ElapsedTimeRange {
+  min: ElapsedTime;
+  max: ElapsedTime;
+}
+
+/**
+ * Precision levels of a FuzzyDate, from coarsest to finest
+ */
+export type FuzzyDatePrecision =
+  | 'millennium'
+  | 'century'
+  | 'decade'
+  | 'year'
+  | 'half'
+  | 'quarter'
+  | 'month'
+  | 'week'
+  | 'day'
+  | 'hour'
+  | 'minute'
+  | 'second'
+  | 'millisecond';
+
+/**
+ * Precisions of a FuzzyDate, from coarsest to finest
+ */
+export const FUZZY_DATE_PRECISIONS: readonly FuzzyDatePrecision[] = [
+  'millennium',
+  'century',
+  'decade',
+  'year',
+  'half',
+  'quarter',
+  'month',
+  'week',
+  'day',
+  'hour',
+  'minute',
+  'second',
+  'millisecond'
+];
+
+/**
+ * Fields of a calendar date and time, from coarsest to finest
+ */
+const CALENDAR_FIELDS = ['year', 'month', 'day', 'hour', 'minute', 'second', 'millisecond'] as const;
+
+/**
+ * Fields of an ISO week date and time, from coarsest to finest
+ */
+const WEEK_FIELDS = ['year', 'week', 'weekday', 'hour', 'minute', 'second', 'millisecond'] as const;
+
+/**
+ * Fields that refine a year, only some of which combine with each other
+ */
+const YEAR_SUBDIVISION_FIELDS = ['half', 'quarter', ...CALENDAR_FIELDS.slice(1), 'week', 'weekday'] as const;
+
+/**
+ * Precisions coarser than a year, from 1 to 3 unspecified year digits
+ */
+const UNSPECIFIED_YEAR_PRECISIONS = ['decade', 'century', 'millennium'] as const;
+
+/**
+ * Length of one unit of each precision
+ */
+const PRECISION_DURATIONS: Record<FuzzyDatePrecision, DurationOptions> = {
+  millennium: { years: 1000 },
+  century: { years: 100 },
+  decade: { years: 10 },
+  year: { years: 1 },
+  half: { months: 6 },
+  quarter: { months: 3 },
+  month: { months: 1 },
+  week: { weeks: 1 },
+  day: { days: 1 },
+  hour: { hours: 1 },
+  minute: { minutes: 1 },
+  second: { seconds: 1 },
+  millisecond: { milliseconds: 1 }
+};
+
+/**
+ * Next coarser precision that contains each precision, for calendar dates
+ * Week dates have their days in weeks, and no coarser unit contains every week.
+ */
+const PARENT_PRECISIONS: Partial<Record<FuzzyDatePrecision, FuzzyDatePrecision>> = {
+  century: 'millennium',
+  decade: 'century',
+  year: 'decade',
+  half: 'year',
+  quarter: 'year',
+  month: 'year',
+  day: 'month',
+  hour: 'day',
+  minute: 'hour',
+  second: 'minute',
+  millisecond: 'second'
+};
+
+/**
+ * Next finer precision that each precision divides into
+ */
+const CHILD_PRECISIONS: Partial<Record<FuzzyDatePrecision, FuzzyDatePrecision>> = {
+  millennium: 'century',
+  century: 'decade',
+  decade: 'year',
+  year: 'month',
+  half: 'month',
+  quarter: 'month',
+  month: 'day',
+  week: 'day',
+  day: 'hour',
+  hour: 'minute',
+  minute: 'second',
+  second: 'millisecond'
+};
+
+/**
+ * EDTF sub-year grouping codes of the first half and the first quarter, used in place of a month
+ * The following ones are numbered in order, so Q3 is 35 and H2 is 41.
+ */
+const FIRST_HALF_CODE = 40;
+const FIRST_QUARTER_CODE = 33;
+
+/**
+ * Smallest and largest value of each numeric field but the year, whatever the calendar
+ */
+const FIELD_BOUNDS = {
+  unspecifiedYearDigits: [1, 3],
+  half: [1, 2],
+  quarter: [1, 4],
+  month: [1, 12],
+  day: [1, 31],
+  week: [1, 53],
+  weekday: [1, 7],
+  hour: [0, 23],
+  minute: [0, 59],
+  second: [0, 59],
+  millisecond: [0, 999]
+} as const;
+
+/**
+ * Fields that can carry an EDTF qualifier, in the order they are written
+ */
+const QUALIFIED_FIELDS = ['year', 'month', 'day'] as const;
+
+/**
+ * EDTF qualifiers as bit flags, so that "?" and "~" on the same component combine into "%"
+ */
+const QUALIFIERS: readonly (FuzzyDateQualifier | undefined)[] = [undefined, 'uncertain', 'approximate', 'uncertainApproximate'];
+const QUALIFIER_SYMBOLS = ['', '?', '~', '%'];
+
+/**
+ * Moments in a sort key are shifted by 2^53 to be non-negative, and split at 2^27 so the sum stays exact
+ * Each half is then written as 7 hexadecimal digits.
+ */
+const SORT_KEY_SPLIT = 2 ** 27;
+const SORT_KEY_MOMENT_LENGTH = 14;
+const SORT_KEY_PREFIX_LENGTH = 2 * SORT_KEY_MOMENT_LENGTH + 1;
+
+/**
+ * Options for sorting FuzzyDates
+ * - by: which point of each range to sort on, defaults to 'earliest'
+ * - ties: how to order dates sharing that point, e.g. "2023" and "2023-01", defaults to 'coarserFirst'
+ */
+export interface FuzzyDateComparatorOptions {
+  by?: 'earliest' | 'latest' | 'midpoint';
+  ties?: 'coarserFirst' | 'finerFirst';
+}
+
+/**
+ * Three-valued answer of a comparison between FuzzyDates
+ * - 'yes': true for every possible moment of both dates
+ * - 'no': false for every possible moment of both dates
+ * - 'maybe': true for some possible moments and false for others
+ */
+export type Ternary = 'yes' | 'no' | 'maybe';
+
+/**
+ * Outcome of FuzzyDate.validate and FuzzyDate.safeParse: either the FuzzyDate, or every issue found with the input
+ */
+export type FuzzyDateResult = { ok: true; value: FuzzyDate } | { ok: false; issues: FuzzyDateIssue[] };
+
+/**
+ * Options read from a Fuzzy Date String, with the offset of each field in it
+ */
+interface FuzzyDateStringReading {
+  options: FuzzyDateOptions;
+  positions: Partial<Record<keyof FuzzyDateOptions, number>>;
+  /**
+   * Offset written along with an IANA time zone, to check against the zone
+   */
+  offset?: string;
+}
+
 /**
  * Represents a fuzzy date with optional data fields
  */
 export class FuzzyDate {
   readonly year: number;
+  readonly unspecifiedYearDigits?: number;
+  readonly half?: number;
+  readonly quarter?: number;
   readonly month?: number;
   readonly day?: number;
+  /**
+   * ISO week, with year as the week-year
+   */
+  readonly week?: number;
+  readonly weekday?: number;
   readonly hour?: number;
   readonly minute?: number;
   readonly second?: number;
   readonly millisecond?: number;
+  /**
+   * Qualifiers of the year, month and day, or undefined when none is qualified
+   */
+  readonly qualifiers?: FuzzyDateQualifiers;
+  /**
+   * Margin around the date without its zero units, or undefined when there is none
+   */
+  readonly tolerance?: FuzzyDateTolerance;
+  /**
+   * Normalized zone: an IANA name, "UTC", a "±HH:MM" offset, or undefined when floating
+   */
+  readonly zone?: string;
+  /**
+   * Offset from UTC in minutes that starts the date at the second occurrence of a wall-clock time repeated
+   * by a DST transition, or undefined when it starts at the first or only occurrence
+   */
+  readonly offset?: number;
 
   /**
-   * Create a new FuzzyDate instance
+   * Create a new FuzzyDate instance, frozen along with its qualifiers and tolerance
+   * @throws {FuzzyDateToleranceError} When a unit of the tolerance isn't a non-negative integer,
+   * or the tolerance pads the date beyond the calendar
+   * @throws {FuzzyDateZoneError} When zone isn't a known time zone
    * @throws {FuzzyDateHierarchyError} When fields aren't filled in hierarchical order
-   * @throws {FuzzyDateCalendarError} When date isn't a valid calendar date
+   * @throws {FuzzyDateCalendarError} When a field is out of range, or date isn't a valid calendar date or doesn't exist in its zone
+   * @throws {FuzzyDateError} When options isn't an object, or a qualifier isn't one of FuzzyDateQualifier
+   * 
+   * Each error tells the field it is about. Use validate to get every problem with the options at once.
    */
   constructor(options: FuzzyDateOptions) {
-    this.year = options.year;
+    const [error] = FuzzyDate.findErrors(options);
+    if (error) {
+      throw error;
+    }
+
+    // Only a decade, century or millennium tells -0 apart from 0
+    this.year = isEmpty(options.unspecifiedYearDigits) && options.year === 0 ? 0 : options.year;
+    this.unspecifiedYearDigits = options.unspecifiedYearDigits;
+    this.half = options.half;
+    this.quarter = options.quarter;
     this.month = options.month;
     this.day = options.day;
+    this.week = options.week;
+    this.weekday = options.weekday;
     this.hour = options.hour;
     this.minute = options.minute;
     this.second = options.second;
     this.millisecond = options.millisecond;
-    
-    if (!FuzzyDate.isOptionsFilledInHierarchy(options)) {
-      throw new FuzzyDateHierarchyError();
+    this.qualifiers = FuzzyDate.normalizeQualifiers(options.qualifiers);
+    this.tolerance = FuzzyDate.normalizeTolerance(options.tolerance);
+    this.zone = FuzzyDate.normalizeZone(options.zone);
+
+    const calendarError = FuzzyDate.findCalendarError(this);
+    if (calendarError) {
+      throw calendarError;
+    }
+    this.offset = this.findRepeatedOffset(options.offset);
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Check options for a FuzzyDate without throwing
+   * @returns { ok: true, value } with the FuzzyDate, or { ok: false, issues } with every problem found with the options
+   * 
+   * Problems are looked for in the order the constructor throws them. The calendar is only checked once every field is
+   * in range, so { year: 2023, month: 2, day: 30, hour: 25 } only reports the hour.
+   */
+  static validate(options: FuzzyDateOptions): FuzzyDateResult {
+    const errors = FuzzyDate.findErrors(options);
+    if (errors.length === 0) {
+      try {
+        return { ok: true, value: new FuzzyDate(options) };
+      } catch (error) {
+        errors.push(error as FuzzyDateCalendarError);
+      }
+    }
+    return { ok: false, issues: errors.map(FuzzyDate.toIssue) };
+  }
+
+  private static toIssue({ code, message, field, position }: FuzzyDateError): FuzzyDateIssue {
+    return { code: code as FuzzyDateIssueCode, message, field, position };
+  }
+
+  /**
+   * Find everything wrong with some options that doesn't take a calendar to tell, in the order the constructor throws it
+   */
+  private static findErrors(options: FuzzyDateOptions): FuzzyDateError[] {
+    if (typeof options !== 'object' || options === null) {
+      return [new FuzzyDateError('FuzzyDate options must be an object', 'format')];
+    }
+
+    const errors: FuzzyDateError[] = [];
+    if (!FuzzyDate.isToleranceValid(options.tolerance)) {
+      errors.push(new FuzzyDateToleranceError());
+    }
+    if (!FuzzyDate.areQualifiersValid(options.qualifiers)) {
+      const message = "FuzzyDate qualifiers must be 'uncertain', 'approximate' or 'uncertainApproximate'";
+      errors.push(new FuzzyDateError(message, 'range', { field: 'qualifiers' }));
     }
-    if (!FuzzyDate.isOptionsOnCalendar(this)) {
-      throw new FuzzyDateCalendarError();
+    try {
+      FuzzyDate.normalizeZone(options.zone);
+    } catch (error) {
+      errors.push(error as FuzzyDateZoneError);
     }
+
+    const field = FuzzyDate.findFieldOutOfHierarchy(options);
+    if (field) {
+      errors.push(new FuzzyDateHierarchyError(field));
+    }
+    return [...errors, ...FuzzyDate.findFieldsOutOfRange(options).map(field => new FuzzyDateCalendarError('range', field))];
   }
 
-  private static isOptionsFilledInHierarchy(options: FuzzyDateOptions): boolean {
-    const fields = ['year', 'month', 'day', 'hour', 'minute', 'second', 'millisecond'] as const;
+  /**
+   * Find the first field set out of hierarchical order
+   */
+  private static findFieldOutOfHierarchy(options: FuzzyDateOptions): keyof FuzzyDateOptions | undefined {
+    // Only the fields that are set can be qualified
+    if (QUALIFIED_FIELDS.some(field => options.qualifiers?.[field] !== undefined && isEmpty(options[field]))) {
+      return 'qualifiers';
+    }
+
+    // Decades, centuries and millennia have no finer fields
+    if (!isEmpty(options.unspecifiedYearDigits)) {
+      return YEAR_SUBDIVISION_FIELDS.find(field => !isEmpty(options[field]));
+    }
+
+    // Halves and quarters only ever follow the year
+    if (!isEmpty(options.half) || !isEmpty(options.quarter)) {
+      return YEAR_SUBDIVISION_FIELDS.filter(field => !isEmpty(options[field]))[1];
+    }
+
+    // A week date replaces month and day with week and weekday
+    const isWeekDate = !isEmpty(options.week) || !isEmpty(options.weekday);
+    const fields = isWeekDate ? WEEK_FIELDS : CALENDAR_FIELDS;
+    if (isWeekDate && (!isEmpty(options.month) || !isEmpty(options.day))) {
+      return isEmpty(options.month) ? 'day' : 'month';
+    }
   
     const firstEmptyIndex = fields.findIndex(field => isEmpty(options[field]));
     
     if (firstEmptyIndex === -1) {
-      return true;
+      return undefined;
     }
     
-    return fields.slice(firstEmptyIndex).every(field => isEmpty(options[field]));
-  }
-
-  private static isOptionsOnCalendar(options: FuzzyDateOptions): boolean {
-    const dt = DateTime.fromObject({
-      year: options.year,
-      month: options.month ?? 1,
-      day: options.day ?? 1,
-      hour: options.hour ?? 0,
-      minute: options.minute ?? 0,
-      second: options.second ?? 0,
-      millisecond: options.millisecond ?? 0
+    return fields.slice(firstEmptyIndex).find(field => !isEmpty(options[field]));
+  }
+
+  /**
+   * Find the fields outside their bounds, whatever the calendar
+   */
+  private static findFieldsOutOfRange(options: FuzzyDateOptions): (keyof FuzzyDateOptions)[] {
+    const fields = (Object.keys(FIELD_BOUNDS) as (keyof typeof FIELD_BOUNDS)[]).filter(field => {
+      const value = options[field];
+      const [min, max] = FIELD_BOUNDS[field];
+      return !isEmpty(value) && !(Number.isInteger(value) && value >= min && value <= max);
     });
-  
-    return dt.isValid;
+
+    // The unspecified digits of the year must be 0
+    const unspecifiedYearDigits = fields.includes('unspecifiedYearDigits') ? 0 : options.unspecifiedYearDigits ?? 0;
+    const isYearInRange = Number.isInteger(options.year) && options.year % 10 ** unspecifiedYearDigits === 0;
+    return isYearInRange ? fields : ['year', ...fields];
+  }
+
+  private static normalizeQualifiers(qualifiers?: FuzzyDateQualifiers): FuzzyDateQualifiers | undefined {
+    const normalized: FuzzyDateQualifiers = {};
+    for (const field of QUALIFIED_FIELDS) {
+      if (qualifiers?.[field] !== undefined) {
+        normalized[field] = qualifiers[field];
+      }
+    }
+    return Object.keys(normalized).length > 0 ? Object.freeze(normalized) : undefined;
+  }
+
+  private static areQualifiersValid(qualifiers?: FuzzyDateQualifiers): boolean {
+    if (isEmpty(qualifiers)) {
+      return true;
+    }
+    return typeof qualifiers === 'object' && QUALIFIED_FIELDS.every(field => QUALIFIERS.includes(qualifiers[field]));
+  }
+
+  private static isToleranceValid(tolerance?: FuzzyDateTolerance): boolean {
+    if (isEmpty(tolerance)) {
+      return true;
+    }
+    if (typeof tolerance.plusMinus !== 'object' || tolerance.plusMinus === null) {
+      return false;
+    }
+    return DURATION_UNITS.every(unit => {
+      const value = tolerance.plusMinus[unit];
+      return isEmpty(value) || (Number.isInteger(value) && value >= 0);
+    });
+  }
+
+  private static normalizeTolerance(tolerance?: FuzzyDateTolerance): FuzzyDateTolerance | undefined {
+    const plusMinus: DurationOptions = {};
+    for (const unit of DURATION_UNITS) {
+      const value = tolerance?.plusMinus[unit];
+      if (!isEmpty(value) && value !== 0) {
+        plusMinus[unit] = value;
+      }
+    }
+    return Object.keys(plusMinus).length > 0 ? Object.freeze({ plusMinus: Object.freeze(plusMinus) }) : undefined;
+  }
+
+  private static normalizeZone(zone?: string): string | undefined {
+    if (zone === undefined || zone === 'floating') {
+      return undefined;
+    }
+    if (zone === 'Z' || zone === 'UTC') {
+      return 'UTC';
+    }
+
+    const offset = /^([+-])(\d{2}):?(\d{2})?$/.exec(zone);
+    if (offset) {
+      const [, sign, hours, minutes = '00'] = offset;
+      if (Number(hours) > 23 || Number(minutes) > 59) {
+        throw new FuzzyDateZoneError();
+      }
+      return hours === '00' && minutes === '00' ? 'UTC' : `${sign}${hours}:${minutes}`;
+    }
+
+    // IANA names are stored as the runtime spells them, so "europe/paris" equals "Europe/Paris"
+    const canonicalZone = getCanonicalTimeZone(zone);
+    if (canonicalZone === undefined) {
+      throw new FuzzyDateZoneError();
+    }
+    return canonicalZone;
   }
 
   /**
-   * Get the earliest possible date options that this FuzzyDate represents
+   * Find what makes a date with every field in bounds miss the calendar, such as the day of February 30
+   * A year beyond what the calendar handles is out of range, like a field out of its bounds,
+   * and so is a tolerance that pads the date beyond it.
    */
-  getEarliestPaddingOptions(): PreciseDateOptions {
+  private static findCalendarError(date: FuzzyDate): FuzzyDateError | undefined {
+    if (!isValidDateTime({ ...date.getStartOptions(), day: 1 })) {
+      return new FuzzyDateCalendarError('range', 'year');
+    }
+    const plusMinus = date.tolerance?.plusMinus ?? {};
+    if (!isValidDateTime(minus(date.getStartOptions(), plusMinus)) || !isValidDateTime(plus(date.getNextStartOptions(), plusMinus))) {
+      return new FuzzyDateToleranceError('FuzzyDate tolerance pads the date beyond the calendar');
+    }
+    const field = FuzzyDate.findFieldOffCalendar(date);
+    return field && new FuzzyDateCalendarError('calendar', field);
+  }
+
+  /**
+   * Find the first field that makes a date within reach of the calendar miss it
+   */
+  private static findFieldOffCalendar(date: FuzzyDate): keyof FuzzyDateOptions | undefined {
+    if (!isEmpty(date.week) && date.week > getWeeksInYear(date.year)) {
+      return 'week';
+    }
+
+    // Only the day can overflow its month
+    const start = date.getStartOptions();
+    if (!isValidDateTime(start)) {
+      return 'day';
+    }
+
+    // Wall-clock times skipped by a DST transition don't exist in the zone
+    const resolved = fromEpochMilliseconds(toEpochMilliseconds(start, date.zone), date.zone);
+    // Week dates specify a calendar date only down to the day
+    const isWeekDateField = (field: typeof CALENDAR_FIELDS[number]) =>
+      !isEmpty(date.week) && (field === 'year' || field === 'month' || field === 'day');
+    const field = CALENDAR_FIELDS.find(field =>
+      (isWeekDateField(field) ? !isEmpty(date.weekday) : !isEmpty(date[field])) && start[field] !== resolved[field]);
+    return field && isWeekDateField(field) ? 'weekday' : field;
+  }
+
+  /**
+   * Keep an offset only when it moves the start of the date to the second occurrence of a repeated wall-clock time
+   */
+  private findRepeatedOffset(offset?: number): number | undefined {
+    if (isEmpty(offset)) {
+      return undefined;
+    }
+    const start = this.getStartOptions();
+    return toEpochMilliseconds(start, this.zone, offset) !== toEpochMilliseconds(start, this.zone) ? offset : undefined;
+  }
+
+  /**
+   * Pad the missing fields with their smallest values, regardless of the zone
+   * Week dates start on the Monday of their week, halves and quarters on their first month.
+   * Negative decades, centuries and millennia count back from their year, so "-4X" starts in -49.
+   */
+  private getStartOptions(): PreciseDateOptions {
+    const { year, month, day } = isEmpty(this.week)
+      ? { year: this.getFirstYear(), month: this.month ?? this.getFirstMonth(), day: this.day ?? 1 }
+      : fromWeekDate(this.year, this.week, this.weekday ?? 1);
+
     return {
-      year: this.year,
-      month: this.month ?? 1,
-      day: this.day ?? 1,
+      year,
+      month,
+      day,
       hour: this.hour ?? 0,
       minute: this.minute ?? 0,
       second: this.second ?? 0,
@@ -127,10 +685,36 @@ export class FuzzyDate {
     };
   }
 
+  private getFirstYear(): number {
+    if (isEmpty(this.unspecifiedYearDigits) || !isNegative(this.year)) {
+      return this.year;
+    }
+    return this.year - 10 ** this.unspecifiedYearDigits + 1;
+  }
+
+  private getFirstMonth(): number {
+    if (!isEmpty(this.half)) {
+      return (this.half - 1) * 6 + 1;
+    }
+    if (!isEmpty(this.quarter)) {
+      return (this.quarter - 1) * 3 + 1;
+    }
+    return 1;
+  }
+
+  /**
+   * Get the earliest possible date options that this FuzzyDate represents
+   * 
+   * In a zone where the padded time is skipped by a DST transition, this is the first time after it.
+   */
+  getEarliestPaddingOptions(): PreciseDateOptions {
+    return this.withZone(fromEpochMilliseconds(this.toEpochRange().earliest, this.zone));
+  }
+
   /**
    * Get precision level of this FuzzyDate
    */
-  getPrecision(): keyof FuzzyDateOptions {
+  getPrecision(): FuzzyDatePrecision {
     if (!isEmpty(this.millisecond)) {
       return 'millisecond';
     }
@@ -143,12 +727,24 @@ export class FuzzyDate {
     if (!isEmpty(this.hour)) {
       return 'hour';
     }
-    if (!isEmpty(this.day)) {
+    if (!isEmpty(this.day) || !isEmpty(this.weekday)) {
       return 'day';
     }
+    if (!isEmpty(this.week)) {
+      return 'week';
+    }
     if (!isEmpty(this.month)) {
       return 'month';
     }
+    if (!isEmpty(this.quarter)) {
+      return 'quarter';
+    }
+    if (!isEmpty(this.half)) {
+      return 'half';
+    }
+    if (!isEmpty(this.unspecifiedYearDigits)) {
+      return UNSPECIFIED_YEAR_PRECISIONS[this.unspecifiedYearDigits - 1];
+    }
     return 'year';
   }
 
@@ -156,127 +752,814 @@ export class FuzzyDate {
    * Get the latest possible date options that this FuzzyDate represents
    */
   getLatestPaddingOptions(): PreciseDateOptions {
-    let dt: DateTime;
-    
-    if (isEmpty(this.month)) {
-      dt = DateTime.fromObject({ year: this.year + 1 }).minus({ milliseconds: 1 });
-    } else if (isEmpty(this.day)) {
-      const month = this.month as number; // ensured by isFuzzyDateFieldsFilledInHierarchy
-      const nextMonth = month + 1 > 12 ? 1 : month + 1;
-      const nextMonthYear = month + 1 > 12 ? this.year + 1 : this.year;
-      dt = DateTime.fromObject({ year: nextMonthYear, month: nextMonth }).minus({ milliseconds: 1 });
-    } else if (isEmpty(this.hour)) {
-      dt = DateTime.fromObject({ 
-        year: this.year, 
-        month: this.month, 
-        day: this.day 
-      }).plus({ days: 1 }).minus({ milliseconds: 1 });
-    } else if (isEmpty(this.minute)) {
-      dt = DateTime.fromObject({ 
-        year: this.year, 
-        month: this.month, 
-        day: this.day, 
-        hour: this.hour 
-      }).plus({ hours: 1 }).minus({ milliseconds: 1 });
-    } else if (isEmpty(this.second)) {
-      dt = DateTime.fromObject({ 
-        year: this.year, 
-        month: this.month, 
-        day: this.day, 
-        hour: this.hour, 
-        minute: this.minute 
-      }).plus({ minutes: 1 }).minus({ milliseconds: 1 });
-    } else if (isEmpty(this.millisecond)) {
-      dt = DateTime.fromObject({ 
-        year: this.year, 
-        month: this.month, 
-        day: this.day, 
-        hour: this.hour, 
-        minute: this.minute, 
-        second: this.second 
-      }).plus({ seconds: 1 }).minus({ milliseconds: 1 });
-    } else {
-      dt = DateTime.fromObject({ 
-        year: this.year, 
-        month: this.month, 
-        day: this.day, 
-        hour: this.hour, 
-        minute: this.minute, 
-        second: this.second, 
-        millisecond: this.millisecond 
-      });
-    }
+    return this.withZone(fromEpochMilliseconds(this.toEpochRange().latest, this.zone));
+  }
 
-    return {
-      year: dt.year,
-      month: dt.month,
-      day: dt.day,
-      hour: dt.hour,
-      minute: dt.minute,
-      second: dt.second,
-      millisecond: dt.millisecond
-    };
+  private withZone(options: PreciseDateOptions): PreciseDateOptions {
+    if (this.zone !== undefined) {
+      options.zone = this.zone;
+    }
+    return options;
   }
 
   /**
-   * Convert a FuzzyDate to a Fuzzy Date String
-   * @returns Fuzzy Date String representation of the FuzzyDate
+   * Check whether this FuzzyDate is before another one
+   * @returns 'yes' if this ends before the other begins, 'no' if this cannot start before the other ends
    * 
-   * The format follows a subset of ISO 8601, allowing for partial precision:
-   * - Year: "2023"
-   * - Year-Month: "2023-05"
-   * - Year-Month-Day: "2023-05-15"
-   * - Year-Month-Day Hour: "2023-05-15T10"
-   * - Year-Month-Day Hour:Minute: "2023-05-15T10:30"
-   * - Year-Month-Day Hour:Minute:Second: "2023-05-15T10:30:45"
-   * - Year-Month-Day Hour:Minute:Second.Millisecond: "2023-05-15T10:30:45.500"
+   * For example, "2023" compared with "2023-05" answers 'maybe'.
    */
-  toString(): string {
-    const parts: string[] = [];
-    
-    // Handle BC years with negative sign
-    parts.push(this.year.toString());
-    
-    if (!isEmpty(this.month)) {
-      parts.push('-');
-      parts.push(this.month.toString().padStart(2, '0'));
+  isBefore(other: FuzzyDate): Ternary {
+    const self = this.toEpochRange();
+    const that = other.toEpochRange();
 
-      if (!isEmpty(this.day)) {
-        parts.push('-');
-        parts.push(this.day.toString().padStart(2, '0'));
-        
-        if (!isEmpty(this.hour)) {
-          parts.push('T');
-          parts.push(this.hour.toString().padStart(2, '0'));
-
-          if (!isEmpty(this.minute)) {
-            parts.push(':');
-            parts.push(this.minute.toString().padStart(2, '0'));
-
-            if (!isEmpty(this.second)) {
-              parts.push(':');
-              parts.push(this.second.toString().padStart(2, '0'));
-
-              if (!isEmpty(this.millisecond)) {
-                parts.push('.');
-                parts.push(this.millisecond.toString().padStart(3, '0'));
-              }
-            }
-          }
-        }
-      }
+    if (self.latest < that.earliest) {
+      return 'yes';
     }
-    
-    return parts.join('');
+    if (self.earliest >= that.latest) {
+      return 'no';
+    }
+    return 'maybe';
   }
 
   /**
-   * Create a FuzzyDate from a Fuzzy Date String
+   * Check whether this FuzzyDate is after another one
+   * @returns 'yes' if this begins after the other ends, 'no' if this cannot end after the other begins
+   */
+  isAfter(other: FuzzyDate): Ternary {
+    return other.isBefore(this);
+  }
+
+  /**
+   * Check whether this FuzzyDate is the same moment as another one
+   * @returns 'yes' only if both are the same single millisecond, 'no' if their ranges are disjoint
+   */
+  isSame(other: FuzzyDate): Ternary {
+    const self = this.toEpochRange();
+    const that = other.toEpochRange();
+
+    if (self.latest < that.earliest || that.latest < self.earliest) {
+      return 'no';
+    }
+    if (self.earliest === self.latest && that.earliest === that.latest) {
+      return 'yes';
+    }
+    return 'maybe';
+  }
+
+  /**
+   * Check whether the ranges of this FuzzyDate and another one share at least one millisecond
+   * 
+   * The ranges themselves are known exactly, so the answer is never 'maybe'.
+   */
+  overlaps(other: FuzzyDate): Exclude<Ternary, 'maybe'> {
+    return this.isSame(other) === 'no' ? 'no' : 'yes';
+  }
+
+  /**
+   * Check whether this FuzzyDate has the same fields, qualifiers, tolerance and zone as another one
+   * 
+   * Unlike isSame, this compares the dates themselves rather than their ranges, so "2023-05" doesn't equal "2023-W20".
+   */
+  equals(other: FuzzyDate): boolean {
+    return this.hashKey() === other.hashKey();
+  }
+
+  /**
+   * Get a string that is the same for equal FuzzyDates and different otherwise, for use as a Set or Map key
+   * 
+   * This is the serialized date, followed by its zone in square brackets when the serialization leaves it out.
+   */
+  hashKey(): string {
+    return this.zone === undefined || !isEmpty(this.hour) ? this.toString() : `${this.toString()}[${this.zone}]`;
+  }
+
+  /**
+   * Get a string whose plain string order is the order of compareByEarliest, and that reads back with fromSortKey
+   * 
+   * The key starts with the earliest padding, the precision and the latest padding, written at a fixed width
+   * so that negative years and years of any width sort correctly. The hashKey follows to make it reversible.
+   * @example FuzzyDate.fromString("2023-05").toSortKey() // "40030fa49be8006400310e4410bff2023-05"
+   */
+  toSortKey(): string {
+    const { earliest, latest } = this.toEpochRange();
+    return FuzzyDate.formatSortKeyMoment(earliest)
+      + FUZZY_DATE_PRECISIONS.indexOf(this.getPrecision()).toString(36)
+      + FuzzyDate.formatSortKeyMoment(latest)
+      + this.hashKey();
+  }
+
+  private static formatSortKeyMoment(milliseconds: number): string {
+    const high = Math.floor(milliseconds / SORT_KEY_SPLIT);
+    const low = milliseconds - high * SORT_KEY_SPLIT;
+    const digits = SORT_KEY_MOMENT_LENGTH / 2;
+    return (high + SORT_KEY_SPLIT / 2).toString(16).padStart(digits, '0') + low.toString(16).padStart(digits, '0');
+  }
+
+  /**
+   * Check whether every possible moment of another FuzzyDate is also a possible moment of this one
+   * 
+   * For example, "2023-05" contains "2023-05-15" and itself, but not "2023-W22", which ends in June.
+   */
+  contains(other: FuzzyDate): boolean {
+    const self = this.toEpochRange();
+    const that = other.toEpochRange();
+    return self.earliest <= that.earliest && that.latest <= self.latest;
+  }
+
+  /**
+   * Get the possible moments shared by this FuzzyDate and another one
+   * @returns The finer date when one contains the other, undefined when they don't overlap,
+   * and otherwise a FuzzyDateRange between the coarsest dates that start and end the overlap
+   * 
+   * For example, "2023-W09" and "2023-03" share "2023-03-01/2023-03-05".
+   */
+  intersect(other: FuzzyDate): FuzzyDate | FuzzyDateRange | undefined {
+    if (other.contains(this)) {
+      return this;
+    }
+    if (this.contains(other)) {
+      return other;
+    }
+
+    const earliest = Math.max(this.toEpochRange().earliest, other.toEpochRange().earliest);
+    const latest = Math.min(this.toEpochRange().latest, other.toEpochRange().latest);
+    if (earliest > latest) {
+      return undefined;
+    }
+
+    const finest = FUZZY_DATE_PRECISIONS[
+      Math.max(FUZZY_DATE_PRECISIONS.indexOf(this.getPrecision()), FUZZY_DATE_PRECISIONS.indexOf(other.getPrecision()))
+    ];
+    return new FuzzyDateRange({
+      start: FuzzyDate.getBoundary(earliest, 'earliest', finest, this.zone),
+      end: FuzzyDate.getBoundary(latest, 'latest', finest, this.zone)
+    });
+  }
+
+  /**
+   * Find the coarsest calendar FuzzyDate, from a precision on, that starts or ends at a moment
+   */
+  private static getBoundary(moment: number, side: 'earliest' | 'latest', precision: FuzzyDatePrecision, zone?: string): FuzzyDate {
+    const fields = fromEpochMilliseconds(moment, zone);
+    return FUZZY_DATE_PRECISIONS
+      .slice(FUZZY_DATE_PRECISIONS.indexOf(precision))
+      .filter(candidate => candidate !== 'week')
+      .map(candidate => new FuzzyDate({ ...FuzzyDate.truncateFields(fields, candidate), zone, offset: getOffsetMinutes(moment, zone) }))
+      .find(date => date.toEpochRange()[side] === moment) as FuzzyDate;
+  }
+
+  /**
+   * Get the finest FuzzyDate containing both this one and another, going up through parent
+   * @returns undefined when not even a millennium contains both
+   * 
+   * For example, the common ancestor of "2023-01-05" and "2023-11" is "2023".
+   * Weeks have no parent, so they go on with the month their Monday falls in.
+   */
+  commonAncestor(other: FuzzyDate): FuzzyDate | undefined {
+    let candidate: FuzzyDate | undefined = this;
+    while (candidate && !(candidate.contains(this) && candidate.contains(other))) {
+      candidate = candidate.parent() ?? candidate.getMonthOfWeek();
+    }
+    return candidate;
+  }
+
+  private getMonthOfWeek(): FuzzyDate | undefined {
+    if (isEmpty(this.week)) {
+      return undefined;
+    }
+    return new FuzzyDate({ ...FuzzyDate.truncateFields(this.getStartOptions(), 'month'), zone: this.zone });
+  }
+
+  /**
+   * Get the Allen interval relation between two FuzzyDates, treating each as the interval
+   * from its earliest to its latest padding
+   * @returns The relation read as "a <relation> b", e.g. "2023-05" is 'during' "2023"
+   * 
+   * Intervals include their latest millisecond, so "2023" 'meets' "2024".
+   */
+  static relation(a: FuzzyDate, b: FuzzyDate): AllenRelation {
+    const self = a.toEpochRange();
+    const that = b.toEpochRange();
+
+    return getPossibleRelations(
+      { start: [self.earliest, self.earliest], end: [self.latest + 1, self.latest + 1] },
+      { start: [that.earliest, that.earliest], end: [that.latest + 1, that.latest + 1] }
+    )[0];
+  }
+
+  /**
+   * Get every Allen interval relation that may hold between two events whose boundaries are uncertain
+   * @returns The possible relations read as "a <relation> b", in the order of ALLEN_RELATIONS
+   * 
+   * Each FuzzyDate is taken as an event that starts and ends somewhere within its range,
+   * so "2023" and "2023-05" may be 'before', 'during', 'after', and so on.
+   */
+  static possibleRelations(a: FuzzyDate, b: FuzzyDate): AllenRelation[] {
+    const self = a.toEpochRange();
+    const that = b.toEpochRange();
+
+    return getPossibleRelations(
+      { start: [self.earliest, self.latest], end: [self.earliest + 1, self.latest + 1] },
+      { start: [that.earliest, that.latest], end: [that.earliest + 1, that.latest + 1] }
+    );
+  }
+
+  /**
+   * Create a comparator for Array.prototype.sort
+   * @returns A comparator that is a total order over FuzzyDates of every precision
+   * 
+   * Dates are ordered by the chosen point of their ranges, then by precision as set by `ties`,
+   * then by earliest and latest padding, and last by hashKey, so "1850" and "1850~" are told apart.
+   * Two dates compare as 0 only when they are equal, and compareByEarliest sorts as toSortKey does.
+   */
+  static comparator(options: FuzzyDateComparatorOptions = {}): (a: FuzzyDate, b: FuzzyDate) => number {
+    const by = options.by ?? 'earliest';
+    const precisionOrder = options.ties === 'finerFirst' ? -1 : 1;
+
+    return (a, b) => {
+      const self = a.toEpochRange();
+      const that = b.toEpochRange();
+
+      let difference: number;
+      if (by === 'earliest') {
+        difference = self.earliest - that.earliest;
+      } else if (by === 'latest') {
+        difference = self.latest - that.latest;
+      } else {
+        // Compare sums rather than halves to stay on whole milliseconds
+        difference = (self.earliest + self.latest) - (that.earliest + that.latest);
+      }
+
+      if (difference === 0) {
+        difference = precisionOrder * (FUZZY_DATE_PRECISIONS.indexOf(a.getPrecision()) - FUZZY_DATE_PRECISIONS.indexOf(b.getPrecision()));
+      }
+      if (difference === 0) {
+        difference = self.earliest - that.earliest;
+      }
+      if (difference === 0) {
+        difference = self.latest - that.latest;
+      }
+      if (difference === 0) {
+        const [key, otherKey] = [a.hashKey(), b.hashKey()];
+        difference = key < otherKey ? -1 : key > otherKey ? 1 : 0;
+      }
+      return Math.sign(difference);
+    };
+  }
+
+  /**
+   * Compare two FuzzyDates by their earliest padding, coarser dates first on ties
+   * @example dates.sort(FuzzyDate.compareByEarliest) // "2023", "2023-01", "2023-05", "2024"
+   */
+  static compareByEarliest(a: FuzzyDate, b: FuzzyDate): number {
+    return FuzzyDate.comparator({ by: 'earliest' })(a, b);
+  }
+
+  /**
+   * Compare two FuzzyDates by their latest padding, coarser dates first on ties
+   * @example dates.sort(FuzzyDate.compareByLatest) // "2023-01", "2023-05", "2023", "2023-12", "2024"
+   */
+  static compareByLatest(a: FuzzyDate, b: FuzzyDate): number {
+    return FuzzyDate.comparator({ by: 'latest' })(a, b);
+  }
+
+  /**
+   * Compare two FuzzyDates by the midpoint of their ranges, coarser dates first on ties
+   */
+  static compareByMidpoint(a: FuzzyDate, b: FuzzyDate): number {
+    return FuzzyDate.comparator({ by: 'midpoint' })(a, b);
+  }
+
+  /**
+   * Get the minimum and maximum possible time elapsed from one FuzzyDate to another
+   * @returns The minimum runs from the latest padding of `from` to the earliest padding of `to`,
+   * the maximum from the earliest padding of `from` to the latest padding of `to`
+   * 
+   * When the ranges overlap, `to` may be before `from` and the minimum is zero or negative.
+   * The calendar breakdown is counted on the wall clock of the zone of `from`.
+   */
+  static durationBetween(from: FuzzyDate, to: FuzzyDate): ElapsedTimeRange {
+    const start = from.toEpochRange();
+    const end = to.toEpochRange();
+
+    return {
+      min: FuzzyDate.elapsedTime(start.latest, end.earliest, from.zone),
+      max: FuzzyDate.elapsedTime(start.earliest, end.latest, from.zone)
+    };
+  }
+
+  private static elapsedTime(from: number, to: number, zone?: string): ElapsedTime {
+    return {
+      milliseconds: to - from,
+      calendar: diff(from, to, zone)
+    };
+  }
+
+  /**
+   * Create a FuzzyDate from a native Date, keeping the fields down to the given precision
+   * @param options.zone Zone whose wall clock the fields are read from, defaults to floating, which reads the UTC
+   * fields into a floating FuzzyDate, so that the result doesn't depend on the zone of the system.
+   * At week precision, the ISO week of the date is kept along with its week-year.
+   * @throws {FuzzyDateZoneError} When zone isn't a known time zone
+   * @throws {FuzzyDateCalendarError} When date is an invalid Date
+   */
+  static fromDate(date: Date, precision: FuzzyDatePrecision, options: { zone?: string } = {}): FuzzyDate {
+    const zone = FuzzyDate.normalizeZone(options.zone ?? 'floating');
+    const fields = FuzzyDate.truncateFields(fromEpochMilliseconds(date.getTime(), zone), precision);
+    return new FuzzyDate({ ...fields, zone, offset: getOffsetMinutes(date.getTime(), zone) });
+  }
+
+  /**
+   * Keep the wall-clock fields down to a precision, as the week, half or quarter they fall in where needed
+   */
+  private static truncateFields(fields: PreciseDateOptions, precision: FuzzyDatePrecision): FuzzyDateOptions {
+    if (precision === 'week') {
+      const { weekYear, week } = toWeekDate(fields.year, fields.month, fields.day);
+      return { year: weekYear, week };
+    }
+    if (precision === 'decade' || precision === 'century' || precision === 'millennium') {
+      // Truncating toward zero keeps negative years in their BC decade, such as -43 in -4X and -5 in -0X
+      const unspecifiedYearDigits = UNSPECIFIED_YEAR_PRECISIONS.indexOf(precision) + 1;
+      const unit = 10 ** unspecifiedYearDigits;
+      return { year: Math.trunc(fields.year / unit) * unit, unspecifiedYearDigits };
+    }
+    if (precision === 'half' || precision === 'quarter') {
+      const monthsPerPart = precision === 'half' ? 6 : 3;
+      return { year: fields.year, [precision]: Math.ceil(fields.month / monthsPerPart) };
+    }
+
+    const options: FuzzyDateOptions = { year: fields.year };
+    for (const field of CALENDAR_FIELDS.slice(1, CALENDAR_FIELDS.indexOf(precision) + 1)) {
+      options[field] = fields[field];
+    }
+    return options;
+  }
+
+  /**
+   * Get the earliest and latest possible moments of this FuzzyDate as native Dates
+   * 
+   * Floating dates are read as UTC.
+   */
+  toDateRange(): { start: Date; end: Date } {
+    const { earliest, latest } = this.toEpochRange();
+    return { start: new Date(earliest), end: new Date(latest) };
+  }
+
+  /**
+   * Get the earliest and latest possible moments of this FuzzyDate in milliseconds since the epoch
+   * 
+   * Floating dates are read as UTC.
+   */
+  toEpochRange(): { earliest: number; latest: number } {
+    const start = this.getStartOptions();
+    const next = this.getNextStartOptions();
+
+    // The tolerance moves both ends on the wall clock, so "circa 1850" spans whole years
+    const plusMinus = this.tolerance?.plusMinus ?? {};
+    return {
+      earliest: toEpochMilliseconds(minus(start, plusMinus), this.zone, this.offset),
+      latest: toEpochMilliseconds(plus(next, plusMinus), this.zone, this.offset) - 1
+    };
+  }
+
+  /**
+   * Get the wall-clock start of the FuzzyDate following this one, which "-0X" and its like shorten to end at year 0
+   */
+  private getNextStartOptions(): PreciseDateOptions {
+    const next = plus(this.getStartOptions(), this.getPrecisionDuration());
+    return Object.is(this.year, -0) ? { ...next, year: 0 } : next;
+  }
+
+  /**
+   * Get the length of one unit of the precision of this FuzzyDate
+   */
+  private getPrecisionDuration(): DurationOptions {
+    return PRECISION_DURATIONS[this.getPrecision()];
+  }
+
+  /**
+   * Get a new FuzzyDate moved later by a duration, keeping the precision, qualifiers, tolerance and zone
+   * 
+   * The duration is added on the wall clock with the end of shorter months clamped, so "2023-01-31" plus a month
+   * is "2023-02-28". Units finer than the precision are rejected, as are years and months on a week date.
+   * @throws {FuzzyDatePrecisionError} When the duration isn't in whole units of the precision or coarser
+   * @throws {FuzzyDateCalendarError} When the result isn't a valid calendar date, or doesn't exist in its zone
+   */
+  plus(duration: DurationOptions): FuzzyDate {
+    return this.shift(duration, 1);
+  }
+
+  /**
+   * Get a new FuzzyDate moved earlier by a duration, keeping the precision, qualifiers, tolerance and zone
+   * 
+   * Follows the same rules as plus, so "2023-03-31" minus a month is "2023-02-28".
+   * @throws {FuzzyDatePrecisionError} When the duration isn't in whole units of the precision or coarser
+   * @throws {FuzzyDateCalendarError} When the result isn't a valid calendar date, or doesn't exist in its zone
+   */
+  minus(duration: DurationOptions): FuzzyDate {
+    return this.shift(duration, -1);
+  }
+
+  private shift(duration: DurationOptions, sign: 1 | -1): FuzzyDate {
+    if (!this.isWholeDuration(duration)) {
+      throw new FuzzyDatePrecisionError('Duration must be in whole units of the precision or coarser');
+    }
+    if (!isEmpty(this.unspecifiedYearDigits)) {
+      return this.withFields(this.shiftUnspecifiedYear((duration.years ?? 0) * sign));
+    }
+
+    const signed: DurationOptions = {};
+    for (const unit of DURATION_UNITS) {
+      signed[unit] = (duration[unit] ?? 0) * sign;
+    }
+
+    return this.withFields(this.truncateStart(plus(this.getStartOptions(), signed), this.getPrecision()));
+  }
+
+  /**
+   * Move a decade, century or millennium by whole units of it, counting "-0X" as the unit before "0X"
+   */
+  private shiftUnspecifiedYear(years: number): FuzzyDateOptions {
+    const unit = 10 ** (this.unspecifiedYearDigits as number);
+    const index = (isNegative(this.year) ? this.year / unit - 1 : this.year / unit) + years / unit;
+    return { year: index < 0 ? -((-1 - index) * unit) : index * unit, unspecifiedYearDigits: this.unspecifiedYearDigits };
+  }
+
+  /**
+   * Whether a duration only counts whole units of the precision of this FuzzyDate, or coarser units
+   * Week dates only move by weeks and days, since years and months would land on another week number.
+   */
+  private isWholeDuration(duration: DurationOptions): boolean {
+    const [[precisionUnit, step]] = Object.entries(this.getPrecisionDuration()) as [keyof DurationOptions, number][];
+    return DURATION_UNITS.every(unit => {
+      const value = duration[unit] ?? 0;
+      if (value === 0) {
+        return true;
+      }
+      if (!Number.isInteger(value) || DURATION_UNITS.indexOf(unit) > DURATION_UNITS.indexOf(precisionUnit)) {
+        return false;
+      }
+      if (!isEmpty(this.week) && (unit === 'years' || unit === 'months')) {
+        return false;
+      }
+      return unit !== precisionUnit || value % step === 0;
+    });
+  }
+
+  /**
+   * Get a new FuzzyDate with fewer fields, such as the day of a timestamp, keeping the qualifiers of the remaining fields
+   * 
+   * A calendar day truncates to the ISO week it falls in, while a week date only truncates to its week.
+   * @throws {FuzzyDatePrecisionError} When precision is finer than the precision of this FuzzyDate,
+   * or coarser than the week of a week date
+   */
+  truncateTo(precision: FuzzyDatePrecision): FuzzyDate {
+    if (FUZZY_DATE_PRECISIONS.indexOf(precision) > FUZZY_DATE_PRECISIONS.indexOf(this.getPrecision())) {
+      throw new FuzzyDatePrecisionError(`A ${this.getPrecision()} can't be truncated to the finer ${precision}`);
+    }
+    return this.withPrecision(precision);
+  }
+
+  /**
+   * Get a new FuzzyDate at another precision, truncating to a coarser one or taking the first unit of a finer one
+   * 
+   * For example, "2023-05-15T10:30" at day precision is "2023-05-15", and "2023" at month precision is "2023-01".
+   * ISO weeks straddle months and years, so they only nest with days and times.
+   * @throws {FuzzyDatePrecisionError} When a week date would go coarser than its week,
+   * or a calendar date would be refined to a week
+   */
+  withPrecision(precision: FuzzyDatePrecision): FuzzyDate {
+    const isFiner = FUZZY_DATE_PRECISIONS.indexOf(precision) > FUZZY_DATE_PRECISIONS.indexOf(this.getPrecision());
+    if (!isEmpty(this.week) && FUZZY_DATE_PRECISIONS.indexOf(precision) < FUZZY_DATE_PRECISIONS.indexOf('week')) {
+      throw new FuzzyDatePrecisionError(`An ISO week date can't be coarsened to ${precision}`);
+    }
+    if (isEmpty(this.week) && precision === 'week' && isFiner) {
+      throw new FuzzyDatePrecisionError(`A ${this.getPrecision()} can't be refined to ISO weeks`);
+    }
+    return this.withFields(this.truncateStart(this.getStartOptions(), precision));
+  }
+
+  /**
+   * Get the FuzzyDate of the next coarser unit containing this one, such as the month of a day or the decade of a year
+   * @returns undefined for a millennium, or an ISO week, which no coarser unit contains
+   */
+  parent(): FuzzyDate | undefined {
+    const precision = !isEmpty(this.weekday) && this.getPrecision() === 'day' ? 'week' : PARENT_PRECISIONS[this.getPrecision()];
+    return precision === undefined ? undefined : this.truncateTo(precision);
+  }
+
+  /**
+   * Iterate over the FuzzyDates of the next finer unit, such as the 29 days of "2024-02" or the 10 years of "198X"
+   * 
+   * Halves and quarters divide into months, and weeks into their weekdays. The children keep the qualifiers of
+   * their fields, the tolerance and the zone, like truncateTo.
+   * Times skipped by a DST transition in the zone are left out, and times it repeats come twice, first at the
+   * offset before it and then at the offset after it. A millisecond has no children.
+   */
+  *children(): IterableIterator<FuzzyDate> {
+    const precision = CHILD_PRECISIONS[this.getPrecision()];
+    if (precision === undefined) {
+      return;
+    }
+
+    const next = this.getNextStartOptions();
+    const end = toEpochMilliseconds(next);
+    const laterOffset = getOffsetMinutes(toEpochMilliseconds(next, this.zone, this.offset) - 1, this.zone);
+    for (let start = this.getStartOptions(); toEpochMilliseconds(start) < end; start = plus(start, PRECISION_DURATIONS[precision])) {
+      const options = this.truncateStart(start, precision);
+      const child = this.attemptWithFields(options);
+      if (!child) {
+        continue;
+      }
+      yield child;
+
+      // Only times of day repeat, as days start at the same moment whatever offset they are written with
+      const isTime = FUZZY_DATE_PRECISIONS.indexOf(precision) > FUZZY_DATE_PRECISIONS.indexOf('day');
+      const repeated = isTime && this.attemptWithFields(options, laterOffset);
+      if (repeated && repeated.offset !== child.offset) {
+        yield repeated;
+      }
+    }
+  }
+
+  /**
+   * Create a FuzzyDate from fields derived from this one and known to be on the calendar,
+   * or undefined when the zone skips them
+   */
+  private attemptWithFields(options: FuzzyDateOptions, offset?: number): FuzzyDate | undefined {
+    try {
+      return this.withFields(options, offset);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the following FuzzyDate at the same precision, such as "2024-01" after "2023-12"
+   * @throws {FuzzyDateCalendarError} When the result doesn't exist in its zone
+   */
+  next(): FuzzyDate {
+    return this.plus(this.getPrecisionDuration());
+  }
+
+  /**
+   * Get the preceding FuzzyDate at the same precision, such as "2023-12" before "2024-01"
+   * @throws {FuzzyDateCalendarError} When the result doesn't exist in its zone
+   */
+  previous(): FuzzyDate {
+    return this.minus(this.getPrecisionDuration());
+  }
+
+  /**
+   * Truncate wall-clock fields to a precision, as a week date again when this is one
+   */
+  private truncateStart(start: PreciseDateOptions, precision: FuzzyDatePrecision): FuzzyDateOptions {
+    const options = FuzzyDate.truncateFields(start, precision);
+    if (isEmpty(this.week) || precision === 'week') {
+      return options;
+    }
+
+    const { year, month, day, ...time } = options;
+    const { weekYear, week, weekday } = toWeekDate(year, month as number, day as number);
+    return { year: weekYear, week, weekday, ...time };
+  }
+
+  /**
+   * Create a FuzzyDate from fields derived from this one, with its zone and tolerance, and the qualifiers of the fields kept
+   */
+  private withFields(options: FuzzyDateOptions, offset = this.offset): FuzzyDate {
+    return new FuzzyDate({
+      ...options, qualifiers: this.getQualifiersOf(options), tolerance: this.tolerance, zone: this.zone, offset
+    });
+  }
+
+  /**
+   * Get the qualifiers of this FuzzyDate for the fields that are set in some options
+   */
+  private getQualifiersOf(options: Partial<FuzzyDateOptions>): FuzzyDateQualifiers {
+    const qualifiers: FuzzyDateQualifiers = {};
+    for (const field of QUALIFIED_FIELDS) {
+      if (!isEmpty(options[field])) {
+        qualifiers[field] = this.qualifiers?.[field];
+      }
+    }
+    return qualifiers;
+  }
+
+  /**
+   * Create a FuzzyDate with some options replaced, keeping the others of this one
+   * @throws {FuzzyDateHierarchyError} When the resulting fields aren't filled in hierarchical order
+   * @throws {FuzzyDateCalendarError} When the resulting date isn't a valid calendar date
+   * 
+   * Setting a field to undefined also clears the finer fields and their qualifiers, so "2023-05-15T10" with
+   * month undefined becomes "2023". Fields are otherwise validated as given, so "2023-05" with quarter 2 throws.
+   */
+  with(options: Partial<FuzzyDateOptions>): FuzzyDate {
+    const merged: Partial<FuzzyDateOptions> = { ...this.getOptions(), ...options };
+    const isRemoved = (field: keyof FuzzyDateOptions) => field in options && isEmpty(options[field]);
+
+    for (const fields of [CALENDAR_FIELDS, WEEK_FIELDS]) {
+      const index = fields.findIndex(isRemoved);
+      if (index !== -1) {
+        fields.slice(index + 1).forEach(field => merged[field] = undefined);
+      }
+    }
+    if (!('qualifiers' in options)) {
+      merged.qualifiers = this.getQualifiersOf(merged);
+    }
+    return new FuzzyDate(merged as FuzzyDateOptions);
+  }
+
+  private getOptions(): FuzzyDateOptions {
+    const { year, unspecifiedYearDigits, half, quarter, month, day, week, weekday, hour, minute, second, millisecond, qualifiers, tolerance, zone, offset } = this;
+    return { year, unspecifiedYearDigits, half, quarter, month, day, week, weekday, hour, minute, second, millisecond, qualifiers, tolerance, zone, offset };
+  }
+
+  /**
+   * Format this FuzzyDate, either for display in a locale with Intl.DateTimeFormat, or with a token pattern
+   * 
+   * Only the fields of the date are rendered, so "2023-03" shows as "Mar 2023" rather than a padded day or time.
+   * Dates with a zone show its name in the long and full styles, from hour precision on.
+   * 
+   * Patterns combine the tokens yyyy, MM, MMM, MMMM, dd, WW, E, HH, hh, a, mm, ss and SSS, with single-digit and
+   * uppercase variants such as M, d or YYYY, and literal text in single quotes. Segments in square brackets are
+   * optional and only rendered when the date has their fields, such as "yyyy[-MM[-dd]]".
+   * @throws {FuzzyDatePatternError} When the pattern is invalid, or requires a field this date doesn't have
+   */
+  format(pattern: string): string;
+  format(options?: FuzzyDateFormatOptions): string;
+  format(patternOrOptions: string | FuzzyDateFormatOptions = {}): string {
+    if (typeof patternOrOptions === 'string') {
+      return formatPattern(this, patternOrOptions);
+    }
+    return formatLocalized(this, this.getStartOptions(), patternOrOptions);
+  }
+
+  /**
+   * Convert a FuzzyDate to a Fuzzy Date String
+   * @returns Fuzzy Date String representation of the FuzzyDate
+   * 
+   * The format follows a subset of ISO 8601, allowing for partial precision:
+   * - Millennium, century or decade, with unspecified digits: "1XXX", "18XX", "198X"
+   * - Year: "2023"
+   * - Year-Month: "2023-05"
+   * - Year-Month-Day: "2023-05-15"
+   * - Year-Month-Day Hour: "2023-05-15T10"
+   * - Year-Month-Day Hour:Minute: "2023-05-15T10:30"
+   * - Year-Month-Day Hour:Minute:Second: "2023-05-15T10:30:45"
+   * - Year-Month-Day Hour:Minute:Second.Millisecond: "2023-05-15T10:30:45.500"
+   * - Half: "2021-40" for H1 and "2021-41" for H2, as EDTF sub-year groupings
+   * - Quarter: "2022-33" for Q1 through "2022-36" for Q4
+   * - ISO week: "2023-W12"
+   * - ISO week and weekday: "2023-W12-3", followed by the time like a calendar date
+   * 
+   * Qualifiers follow EDTF: "?" for uncertain, "~" for approximate and "%" for both.
+   * When every part of the date shares one, it is written at the end, such as "1920-03~" or "2004-06-11T10:30Z?";
+   * otherwise each qualified component is prefixed, such as "2004-?06-11".
+   * 
+   * From hour precision on, a zone is appended as:
+   * - UTC: "2023-05-15T10:30Z"
+   * - Fixed offset: "2023-05-15T10:30+05:30"
+   * - IANA time zone: "2023-05-15T10:30+02:00[Europe/Paris]", with the offset at the start of the date
+   * 
+   * A tolerance comes last, as "±" and an ISO 8601 duration: "1850±P5Y"
+   */
+  toString(): string {
+    const parts: string[] = [];
+    const trailingQualifier = this.getTrailingQualifier();
+    const prefix = (field: typeof QUALIFIED_FIELDS[number]) =>
+      trailingQualifier ? '' : QUALIFIER_SYMBOLS[QUALIFIERS.indexOf(this.qualifiers?.[field])];
+    
+    // Handle BC years with negative sign, and unspecified digits as X
+    parts.push(prefix('year'));
+    if (isEmpty(this.unspecifiedYearDigits)) {
+      parts.push(this.year.toString());
+    } else {
+      const digits = Math.abs(this.year).toString().padStart(this.unspecifiedYearDigits + 1, '0');
+      parts.push(isNegative(this.year) ? '-' : '');
+      parts.push(digits.slice(0, -this.unspecifiedYearDigits) + 'X'.repeat(this.unspecifiedYearDigits));
+    }
+    
+    if (!isEmpty(this.week)) {
+      parts.push('-W');
+      parts.push(this.week.toString().padStart(2, '0'));
+
+      if (!isEmpty(this.weekday)) {
+        parts.push('-');
+        parts.push(this.weekday.toString());
+        parts.push(this.getTimeString());
+      }
+    } else if (!isEmpty(this.half)) {
+      parts.push('-');
+      parts.push((FIRST_HALF_CODE + this.half - 1).toString());
+    } else if (!isEmpty(this.quarter)) {
+      parts.push('-');
+      parts.push((FIRST_QUARTER_CODE + this.quarter - 1).toString());
+    } else if (!isEmpty(this.month)) {
+      parts.push('-');
+      parts.push(prefix('month'));
+      parts.push(this.month.toString().padStart(2, '0'));
+
+      if (!isEmpty(this.day)) {
+        parts.push('-');
+        parts.push(prefix('day'));
+        parts.push(this.day.toString().padStart(2, '0'));
+        parts.push(this.getTimeString());
+      }
+    }
+
+    // A timestamp places the qualifier of its date after the time, as ISO 8601 keeps the date and time together
+    parts.push(trailingQualifier);
+
+    if (this.tolerance) {
+      parts.push('±');
+      parts.push(formatIsoDuration(this.tolerance.plusMinus));
+    }
+    
+    return parts.join('');
+  }
+
+  /**
+   * Serialize this FuzzyDate as its Fuzzy Date String, so that JSON.stringify writes "2023-05" rather than its fields
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * EDTF symbol qualifying the whole date, when every part of it shares one qualifier
+   * Week dates, halves and quarters have a part that can't be qualified, so they never share one.
+   */
+  private getTrailingQualifier(): string {
+    if (!isEmpty(this.week) || !isEmpty(this.half) || !isEmpty(this.quarter)) {
+      return '';
+    }
+    const qualifiers = QUALIFIED_FIELDS
+      .filter(field => !isEmpty(this[field]))
+      .map(field => this.qualifiers?.[field]);
+    return qualifiers.every(qualifier => qualifier === qualifiers[0])
+      ? QUALIFIER_SYMBOLS[QUALIFIERS.indexOf(qualifiers[0])]
+      : '';
+  }
+
+  /**
+   * Format the time and zone that follow a full date, such as "T10:30+05:30"
+   */
+  private getTimeString(): string {
+    if (isEmpty(this.hour)) {
+      return '';
+    }
+
+    const parts: string[] = ['T', this.hour.toString().padStart(2, '0')];
+
+    if (!isEmpty(this.minute)) {
+      parts.push(':');
+      parts.push(this.minute.toString().padStart(2, '0'));
+
+      if (!isEmpty(this.second)) {
+        parts.push(':');
+        parts.push(this.second.toString().padStart(2, '0'));
+
+        if (!isEmpty(this.millisecond)) {
+          parts.push('.');
+          parts.push(this.millisecond.toString().padStart(3, '0'));
+        }
+      }
+    }
+
+    parts.push(this.getZoneDesignator());
+    return parts.join('');
+  }
+
+  private getZoneDesignator(): string {
+    if (this.zone === undefined) {
+      return '';
+    }
+    if (this.zone === 'UTC') {
+      return 'Z';
+    }
+    if (/^[+-]/.test(this.zone)) {
+      return this.zone;
+    }
+    return `${this.getOffset()}[${this.zone}]`;
+  }
+
+  /**
+   * Get the UTC offset at the start of the date as "±HH:MM", leaving out any tolerance
+   */
+  private getOffset(): string {
+    return formatOffset(getOffsetMinutes(toEpochMilliseconds(this.getStartOptions(), this.zone, this.offset), this.zone));
+  }
+
+  /**
+   * Create a FuzzyDate from a Fuzzy Date String
    * @param dateString Fuzzy Date String to parse
-   * @throws {FuzzyDateDeserializationError} When the string is not a valid Fuzzy Date String format
+   * @throws {FuzzyDateDeserializationError} When the string is not a valid Fuzzy Date String format,
+   * or its offset doesn't match its IANA time zone
    * @returns A new FuzzyDate instance
    * 
    * The format follows a subset of ISO 8601, allowing for partial precision:
+   * - Millennium, century or decade, with unspecified digits: "1XXX", "18XX", "198X"
    * - Year: "2023"
    * - Year-Month: "2023-05"
    * - Year-Month-Day: "2023-05-15"
@@ -284,15 +1567,106 @@ export class FuzzyDate {
    * - Year-Month-Day Hour:Minute: "2023-05-15T10:30"
    * - Year-Month-Day Hour:Minute:Second: "2023-05-15T10:30:45"
    * - Year-Month-Day Hour:Minute:Second.Millisecond: "2023-05-15T10:30:45.500"
+   * - Half: "2021-40" for H1 and "2021-41" for H2, as EDTF sub-year groupings
+   * - Quarter: "2022-33" for Q1 through "2022-36" for Q4
+   * - ISO week: "2023-W12"
+   * - ISO week and weekday: "2023-W12-3", followed by the time like a calendar date
+   * 
+   * The year, month and day take the EDTF qualifiers "?" for uncertain, "~" for approximate and "%" for both.
+   * A qualifier before a component applies to it alone, as in "2004-?06-11" or "%2001",
+   * and one after a component to it and every component before it, as in "1850?" or "1920-03~".
+   * The qualifier after the day comes after the time and zone if there are any, as in "2004-06-11T10:30Z?".
+   * Weeks, halves and quarters take none, though the year before them can, as in "2023?-W12".
+   * 
+   * From hour precision on, a zone is appended as:
+   * - UTC: "2023-05-15T10:30Z"
+   * - Fixed offset: "2023-05-15T10:30+05:30"
+   * - IANA time zone: "2023-05-15T10:30+02:00[Europe/Paris]", with the offset at the start of the date
+   * 
+   * A tolerance comes last, as "±" and an ISO 8601 duration: "1850±P5Y"
    */
-  static fromString(dateString: string): FuzzyDate {
+  static fromString(toleratedString: string): FuzzyDate {
+    const reading = FuzzyDate.readString(toleratedString);
+    const date = new FuzzyDate(reading.options);
+    const error = FuzzyDate.findOffsetError(date, reading);
+    if (error) {
+      throw error;
+    }
+    return date;
+  }
+
+  /**
+   * Create a FuzzyDate from a key made by toSortKey
+   * @throws {FuzzyDateDeserializationError} When the key isn't one toSortKey makes
+   */
+  static fromSortKey(key: string): FuzzyDate {
+    const hashKey = key.slice(SORT_KEY_PREFIX_LENGTH);
+    const parsed = FuzzyDate.safeParse(hashKey);
+    // Zones left out of the serialization follow it in square brackets
+    const zoned = /^(.+)\[([^\]]+)\]$/.exec(hashKey);
+
+    let date: FuzzyDate | undefined;
+    try {
+      date = parsed.ok ? parsed.value : zoned ? FuzzyDate.fromString(zoned[1]).with({ zone: zoned[2] }) : undefined;
+    } catch {
+      date = undefined;
+    }
+    if (!date || date.toSortKey() !== key) {
+      throw new FuzzyDateDeserializationError('Invalid sort key');
+    }
+    return date;
+  }
+
+  /**
+   * Create a FuzzyDate from a Fuzzy Date String without throwing
+   * @returns { ok: true, value } with the FuzzyDate, or { ok: false, issues } with what keeps the string from being one
+   * 
+   * Issues tell their field and position in the string when they have one, such as the month at position 5 of "2023-13".
+   * See fromString for the format.
+   */
+  static safeParse(toleratedString: string): FuzzyDateResult {
+    let reading: FuzzyDateStringReading;
+    try {
+      reading = FuzzyDate.readString(toleratedString);
+    } catch (error) {
+      return { ok: false, issues: [FuzzyDate.toIssue(error as FuzzyDateError)] };
+    }
+
+    const result = FuzzyDate.validate(reading.options);
+    if (!result.ok) {
+      const issues = result.issues.map(issue => ({ ...issue, position: issue.field && reading.positions[issue.field] }));
+      return { ok: false, issues };
+    }
+    const error = FuzzyDate.findOffsetError(result.value, reading);
+    return error ? { ok: false, issues: [FuzzyDate.toIssue(error)] } : result;
+  }
+
+  /**
+   * Read the options of a Fuzzy Date String, along with where each of its fields starts
+   * @throws {FuzzyDateDeserializationError} When the string is not a valid Fuzzy Date String format
+   */
+  private static readString(toleratedString: string): FuzzyDateStringReading {
+    // Separate the tolerance from the date
+    const [, qualifiedString, toleranceString] = /^(.*?)(?:±(.*))?$/.exec(toleratedString) as RegExpExecArray;
+    const plusMinus = toleranceString === undefined ? undefined : parseIsoDuration(toleranceString);
+    if (toleranceString !== undefined && plusMinus === undefined) {
+      const position = qualifiedString.length + 1;
+      throw new FuzzyDateDeserializationError(`Invalid tolerance at position ${position}`, { field: 'tolerance', position });
+    }
+
     // Validate the overall format
-    if (!/^-?\d+(-\d{2}(-\d{2}(T\d{2}(:\d{2}(:\d{2}(\.\d{3})?)?)?)?)?)?$/.test(dateString)) {
-      throw new FuzzyDateDeserializationError('Invalid format');
+    const { isValid, end, positions } = FuzzyDate.scanString(qualifiedString);
+    if (!isValid) {
+      throw new FuzzyDateDeserializationError(`Invalid format at position ${end}`, { position: end });
     }
 
+    const { dateString, qualifiers } = FuzzyDate.readQualifiers(qualifiedString);
+
+    // Separate the zone designator from the date and time
+    const [, dateTimePart, offset, zoneName] = /^(.*?)(Z|[+-]\d{2}:\d{2})?(?:\[(.+)\])?$/.exec(dateString) as RegExpExecArray;
+
     // Split the string into date and time parts
-    const [datePart, timePart] = dateString.split('T');
+    const [datePart, timePart] = dateTimePart.split('T');
     
     // Handle negative year case
     const hasNegativeYear = datePart.startsWith('-');
@@ -301,16 +1675,31 @@ export class FuzzyDate {
       : datePart.split('-');
     
     const options: FuzzyDateOptions = {
-      year: parseInt(dateParts[0], 10)
+      year: parseInt(dateParts[0].replace(/X/g, '0'), 10)
     };
+
+    const unspecifiedYearDigits = dateParts[0].split('X').length - 1;
+    if (unspecifiedYearDigits > 0) {
+      options.unspecifiedYearDigits = unspecifiedYearDigits;
+    }
     
-    // Handle month and day parts
+    // Handle month and day parts, week and weekday parts, or a half or quarter code
+    const isWeekDate = dateParts.length > 1 && dateParts[1].startsWith('W');
     if (dateParts.length > 1) {
-      options.month = parseInt(dateParts[1], 10);
+      const value = parseInt(dateParts[1].replace('W', ''), 10);
+      if (isWeekDate) {
+        options.week = value;
+      } else if (dateParts.length === 2 && value >= FIRST_HALF_CODE && value < FIRST_HALF_CODE + 2) {
+        options.half = value - FIRST_HALF_CODE + 1;
+      } else if (dateParts.length === 2 && value >= FIRST_QUARTER_CODE && value < FIRST_QUARTER_CODE + 4) {
+        options.quarter = value - FIRST_QUARTER_CODE + 1;
+      } else {
+        options.month = value;
+      }
     }
     
     if (dateParts.length > 2) {
-      options.day = parseInt(dateParts[2], 10);
+      options[isWeekDate ? 'weekday' : 'day'] = parseInt(dateParts[2], 10);
     }
     
     if (timePart) {
@@ -331,7 +1720,197 @@ export class FuzzyDate {
         }
       }
     }
-    
-    return new FuzzyDate(options);
+
+    options.qualifiers = qualifiers;
+    options.tolerance = plusMinus && { plusMinus };
+    options.zone = zoneName ?? offset;
+    if (zoneName !== undefined && offset !== undefined) {
+      options.offset = parseOffset(offset);
+    }
+    return { options, positions, offset: zoneName === undefined ? undefined : offset };
+  }
+
+  /**
+   * Walk a Fuzzy Date String without its tolerance as far as it follows the format
+   * @returns Whether it follows the format, and the offset where it stops doing so or its length,
+   * along with the offset of each field read until then
+   */
+  private static scanString(qualifiedString: string): { isValid: boolean; end: number; positions: FuzzyDateStringReading['positions'] } {
+    const positions: FuzzyDateStringReading['positions'] = {};
+    let end = 0;
+    let isBroken = false;
+    const read = (source: string, ...fields: (keyof FuzzyDateOptions)[]): boolean => {
+      const regex = new RegExp(source, 'y');
+      regex.lastIndex = end;
+      if (!regex.test(qualifiedString)) {
+        return false;
+      }
+      fields.filter(field => positions[field] === undefined).forEach(field => positions[field] = end);
+      end = regex.lastIndex;
+      return true;
+    };
+    // Like read, for a part that must be there
+    const expect = (source: string, ...fields: (keyof FuzzyDateOptions)[]): boolean => {
+      if (!read(source, ...fields)) {
+        isBroken = true;
+      }
+      return !isBroken;
+    };
+    const readQualifier = () => read('[?~%]');
+
+    // Each part of the time is optional, but must be complete once started
+    const readTime = (): boolean => {
+      const hasTime = read('T') && expect('\\d{2}', 'hour') &&
+        (!read(':') || expect('\\d{2}', 'minute') &&
+          (!read(':') || expect('\\d{2}', 'second') &&
+            (!read('\\.') || expect('\\d{3}', 'millisecond'))));
+      // "Z" gives the zone on its own, while an offset may come with the time zone it was read in
+      if (hasTime && !read('Z', 'zone')) {
+        read('[+-]\\d{2}:\\d{2}', 'zone');
+        read('\\[[^\\]]+\\]', 'zone');
+      }
+      return hasTime;
+    };
+
+    const breakAt = (position: number): true => {
+      end = position;
+      isBroken = true;
+      return true;
+    };
+    // Weeks, halves and quarters can't be qualified, so a qualifier next to one breaks the format where it stands
+    const rejectQualifier = (): boolean => {
+      const start = end;
+      return readQualifier() && breakAt(start);
+    };
+
+    // The last component of a calendar or week date is followed by the time, and the qualifier of the whole date
+    // comes after the time rather than between them
+    const readLastComponent = (source: string, field: keyof FuzzyDateOptions, qualify: () => boolean) => {
+      if (!read('-')) {
+        return;
+      }
+      qualify();
+      if (expect(source, field) && !qualify() && readTime()) {
+        qualify();
+      }
+    };
+
+    const readDate = () => {
+      readQualifier();
+      read('-', 'year');
+      if (!expect('\\d+', 'year')) {
+        return;
+      }
+      if (read('X{1,3}', 'unspecifiedYearDigits')) {
+        readQualifier();
+        return;
+      }
+      readQualifier();
+      if (!read('-')) {
+        return;
+      }
+      const qualifierStart = end;
+      const isQualified = readQualifier();
+      const isWeek = read('W\\d{2}', 'week');
+      if (isWeek || read(SUB_YEAR_CODE_SOURCE, 'half', 'quarter', 'month')) {
+        if (isQualified) {
+          breakAt(qualifierStart);
+        } else if (!rejectQualifier()) {
+          readLastComponent(isWeek ? '[1-7]' : '\\d{2}', isWeek ? 'weekday' : 'day', rejectQualifier);
+        }
+      } else if (expect('\\d{2}', 'half', 'quarter', 'month')) {
+        readQualifier();
+        readLastComponent('\\d{2}', 'day', readQualifier);
+      }
+    };
+
+    readDate();
+    return { isValid: !isBroken && end === qualifiedString.length, end, positions };
+  }
+
+  /**
+   * Check the offset written along with an IANA time zone against the offset of the date in that zone
+   */
+  private static findOffsetError(date: FuzzyDate, { offset, positions }: FuzzyDateStringReading): FuzzyDateDeserializationError | undefined {
+    if (offset === undefined || offset === date.getOffset()) {
+      return undefined;
+    }
+    return new FuzzyDateDeserializationError(`Inconsistent offset at position ${positions.zone}`, { field: 'zone', position: positions.zone });
+  }
+
+  /**
+   * Revive Fuzzy Date Strings as FuzzyDates, for use as JSON.parse(text, FuzzyDate.reviver)
+   * 
+   * Any string that is a valid Fuzzy Date String is revived, including plain numbers such as "42" for the year 42,
+   * and other values are kept as they are. Use reviveFuzzyDates to revive only the values at known paths.
+   */
+  static reviver(_key: string, value: unknown): unknown {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return FuzzyDate.fromString(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Separate the EDTF qualifiers from the year, month and day of a Fuzzy Date String that follows the format
+   */
+  private static readQualifiers(qualifiedString: string): { dateString: string; qualifiers?: FuzzyDateQualifiers } {
+    if (!/[?~%]/.test(qualifiedString)) {
+      return { dateString: qualifiedString };
+    }
+
+    // Each component is captured with the symbols before and after it, the last one after the time if there is one
+    const match = /^([?~%]?)(-?\d+X*)([?~%]?)(?:-([?~%]?)(W?\d{2})([?~%]?)(?:-([?~%]?)(\d{1,2})([?~%]?))?)?(T[^?~%]*)?([?~%]?)$/
+      .exec(qualifiedString) as RegExpExecArray;
+    match[9] ||= match[11];
+
+    const flags = QUALIFIED_FIELDS.map(() => 0);
+    const components: string[] = [];
+    QUALIFIED_FIELDS.forEach((_, index) => {
+      const [before, component, after] = match.slice(index * 3 + 1, index * 3 + 4);
+      if (component === undefined) {
+        return;
+      }
+      components.push(component);
+      flags[index] |= QUALIFIER_SYMBOLS.indexOf(before);
+      for (let qualified = 0; qualified <= index; qualified++) {
+        flags[qualified] |= QUALIFIER_SYMBOLS.indexOf(after);
+      }
+    });
+
+    const qualifiers: FuzzyDateQualifiers = {};
+    QUALIFIED_FIELDS.forEach((field, index) => {
+      qualifiers[field] = QUALIFIERS[flags[index]];
+    });
+    return { dateString: components.join('-') + (match[10] ?? ''), qualifiers };
+  }
+
+  /**
+   * Create a FuzzyDate from input written in a token pattern, such as "DD.MM.YYYY" or "MMM yyyy"
+   * 
+   * The precision follows the optional segments present in the input, so "yyyy[-MM[-dd]]" reads
+   * "2023", "2023-05" and "2023-05-15". See format for the tokens.
+   * @throws {FuzzyDatePatternError} When the pattern is invalid
+   * @throws {FuzzyDateDeserializationError} When the input doesn't match the pattern
+   * @throws {FuzzyDateHierarchyError} When fields aren't filled in hierarchical order
+   * @throws {FuzzyDateCalendarError} When date isn't a valid calendar date
+   */
+  static fromFormat(input: string, pattern: string): FuzzyDate {
+    return parsePattern(input, pattern);
+  }
+
+  /**
+   * Parse a date written by a person, such as "March 2023", "3/22/2023", "22 Mar 2023 10:30", "spring 1944" or "the 1980s"
+   * 
+   * The precision follows what the input spells out, down to decades and centuries. Seasons are read as a FuzzyDateRange.
+   * Ambiguous numeric dates are ordered after the locale, with the other order listed in the alternatives.
+   * @throws {FuzzyDateDeserializationError} When the input can't be read as a date
+   */
+  static parseHuman(input: string, options: HumanParseOptions = {}): HumanParseResult {
+    return parseHumanDate(input, options);
   }
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { FuzzyDateDeserializationError, FuzzyDateRangeError } from "./errors";
+import { FuzzyDate, PreciseDateOptions } from "./fuzzyDate";
+
+/**
+ * Options for creating a FuzzyDateRange
+ * A missing start or end leaves that side of the range open.
+ */
+export interface FuzzyDateRangeOptions {
+  start?: FuzzyDate;
+  end?: FuzzyDate;
+}
+
+/**
+ * Represents a span of time between two FuzzyDates, such as "from March 2023 to sometime in 2024"
+ */
+export class FuzzyDateRange {
+  readonly start?: FuzzyDate;
+  readonly end?: FuzzyDate;
+
+  /**
+   * Create a new FuzzyDateRange instance
+   * @throws {FuzzyDateRangeError} When start is definitely after end
+   */
+  constructor(options: FuzzyDateRangeOptions) {
+    this.start = options.start;
+    this.end = options.end;
+
+    if (this.start && this.end && this.start.isAfter(this.end) === 'yes') {
+      throw new FuzzyDateRangeError();
+    }
+  }
+
+  /**
+   * Get the earliest possible date options that this FuzzyDateRange covers
+   * @returns The earliest padding of the start, or undefined when the start is open
+   */
+  getEarliestPaddingOptions(): PreciseDateOptions | undefined {
+    return this.start?.getEarliestPaddingOptions();
+  }
+
+  /**
+   * Get the latest possible date options that this FuzzyDateRange covers
+   * @returns The latest padding of the end, or undefined when the end is open
+   */
+  getLatestPaddingOptions(): PreciseDateOptions | undefined {
+    return this.end?.getLatestPaddingOptions();
+  }
+
+  /**
+   * Convert a FuzzyDateRange to an ISO 8601 interval string
+   * @returns Fuzzy Date Strings of start and end separated by "/", with ".." for an open side
+   * 
+   * - Closed range: "2023-03/2024"
+   * - Open start: "../2024-05"
+   * - Open end: "2023/.."
+   */
+  toString(): string {
+    return `${this.start?.toString() ?? '..'}/${this.end?.toString() ?? '..'}`;
+  }
+
+  /**
+   * Create a FuzzyDateRange from an ISO 8601 interval string
+   * @param rangeString Fuzzy Date Strings separated by "/", with ".." for an open side
+   * @throws {FuzzyDateDeserializationError} When the string is not a valid interval format
+   * @throws {FuzzyDateRangeError} When start is definitely after end
+   * @returns A new FuzzyDateRange instance
+   */
+  static fromString(rangeString: string): FuzzyDateRange {
+    // IANA time zone names in brackets have slashes of their own
+    const parts = rangeString.split(/\/(?![^[\]]*\])/);
+    if (parts.length !== 2) {
+      throw new FuzzyDateDeserializationError('Invalid format');
+    }
+
+    const [start, end] = parts.map(part => part === '..' ? undefined : FuzzyDate.fromString(part));
+    return new FuzzyDateRange({ start, end });
+  }
+}
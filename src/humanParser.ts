@@ -0,0 +1,353 @@
+import { FuzzyDateDeserializationError } from "./errors";
+import { FuzzyDate, FuzzyDateOptions } from "./fuzzyDate";
+import { FuzzyDateRange } from "./fuzzyDateRange";
+import { ENGLISH_MONTHS } from "./util";
+
+/**
+ * Options for parsing a date written by a person
+ */
+export interface HumanParseOptions {
+  /**
+   * BCP 47 locale used to recognize month names and to order ambiguous numeric dates such as "3/4/2023",
+   * defaults to "en-US". English month names are always recognized.
+   */
+  locale?: string;
+}
+
+/**
+ * One way of reading a date written by a person
+ */
+export interface HumanParseCandidate {
+  value: FuzzyDate | FuzzyDateRange;
+  /**
+   * Likelihood of this reading among all plausible readings of the input, between 0 and 1
+   */
+  confidence: number;
+}
+
+/**
+ * The most likely reading of a date written by a person, along with the other plausible readings
+ */
+export interface HumanParseResult extends HumanParseCandidate {
+  /**
+   * Other readings of the input, most likely first
+   */
+  alternatives: HumanParseCandidate[];
+}
+
+interface Interpretation {
+  value: FuzzyDate | FuzzyDateRange;
+  weight: number;
+}
+
+type Token = { kind: 'number'; value: number; digits: number } | { kind: 'month'; value: number };
+
+const PREFERRED = 2;
+const ALTERNATIVE = 1;
+
+/**
+ * First and last month of each season in the northern hemisphere
+ */
+const SEASONS: Record<string, [number, number]> = {
+  spring: [3, 5],
+  summer: [6, 8],
+  autumn: [9, 11],
+  fall: [9, 11],
+  winter: [12, 2]
+};
+
+const monthNamesCache = new Map<string, Map<string, number>>();
+
+/**
+ * Parse a date written by a person into every plausible FuzzyDate or FuzzyDateRange, most likely first
+ * @throws {FuzzyDateDeserializationError} When the input can't be read as a date
+ */
+export function parseHumanDate(input: string, options: HumanParseOptions): HumanParseResult {
+  const locale = options.locale ?? 'en-US';
+  const text = input
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\b([ap])\.m\.?/g, '$1m');
+
+  const interpretations = [
+    ...parseIso(input.trim()),
+    ...parseDecade(text),
+    ...parseCentury(text),
+    ...parseSeason(text),
+    ...parseYearPart(text),
+    ...parseDateTime(text, locale)
+  ];
+
+  // Different patterns can arrive at the same reading, keep the most likely one
+  const unique = new Map<string, Interpretation>();
+  for (const interpretation of interpretations) {
+    const key = interpretation.value.toString();
+    const existing = unique.get(key);
+    if (!existing || existing.weight < interpretation.weight) {
+      unique.set(key, interpretation);
+    }
+  }
+
+  const candidates = [...unique.values()];
+  if (candidates.length === 0) {
+    throw new FuzzyDateDeserializationError('Unrecognized date');
+  }
+
+  const totalWeight = candidates.reduce((total, candidate) => total + candidate.weight, 0);
+  const [best, ...alternatives] = candidates
+    .sort((a, b) => b.weight - a.weight)
+    .map(({ value, weight }) => ({ value, confidence: weight / totalWeight }));
+
+  return { ...best, alternatives };
+}
+
+function parseIso(text: string): Interpretation[] {
+  return attempt(() => FuzzyDate.fromString(text)).map(value => ({ value, weight: PREFERRED }));
+}
+
+/**
+ * Read "the 1980s" as a decade, and "the 1900s" as either a century or its first decade
+ */
+function parseDecade(text: string): Interpretation[] {
+  const match = /^(?:the )?(\d{2,})0'?s$/.exec(text);
+  if (!match) {
+    return [];
+  }
+
+  const start = Number(match[1]) * 10;
+  const decade = new FuzzyDate({ year: start, unspecifiedYearDigits: 1 });
+  if (start % 100 !== 0) {
+    return [{ value: decade, weight: PREFERRED }];
+  }
+  return [
+    { value: new FuzzyDate({ year: start, unspecifiedYearDigits: 2 }), weight: PREFERRED },
+    { value: decade, weight: ALTERNATIVE }
+  ];
+}
+
+/**
+ * Read "the 19th century" as the hundreds 18XX, with the strict 1801 to 1900 as an alternative
+ */
+function parseCentury(text: string): Interpretation[] {
+  const match = /^(?:the )?(\d{1,2})(?:st|nd|rd|th) century$/.exec(text);
+  if (!match || Number(match[1]) === 0) {
+    return [];
+  }
+
+  const start = (Number(match[1]) - 1) * 100;
+  return [
+    { value: new FuzzyDate({ year: start, unspecifiedYearDigits: 2 }), weight: PREFERRED },
+    { value: yearRange(start + 1, start + 100), weight: ALTERNATIVE }
+  ];
+}
+
+/**
+ * Read "spring 1944" as a range of months, with winter most likely starting in December of the given year
+ */
+function parseSeason(text: string): Interpretation[] {
+  const seasonFirst = /^(spring|summer|autumn|fall|winter),? (?:of )?(\d{3,})$/.exec(text);
+  const yearFirst = /^(\d{3,}),? (spring|summer|autumn|fall|winter)$/.exec(text);
+  if (!seasonFirst && !yearFirst) {
+    return [];
+  }
+
+  const season = seasonFirst ? seasonFirst[1] : (yearFirst as RegExpExecArray)[2];
+  const year = Number(seasonFirst ? seasonFirst[2] : (yearFirst as RegExpExecArray)[1]);
+  const [startMonth, endMonth] = SEASONS[season];
+
+  if (startMonth < endMonth) {
+    return [{ value: monthRange(year, startMonth, year, endMonth), weight: PREFERRED }];
+  }
+  return [
+    { value: monthRange(year, startMonth, year + 1, endMonth), weight: PREFERRED },
+    { value: monthRange(year - 1, startMonth, year, endMonth), weight: ALTERNATIVE }
+  ];
+}
+
+/**
+ * Read "Q3 2022" or "H1 2021" as a quarter or a half of the year
+ */
+function parseYearPart(text: string): Interpretation[] {
+  const partFirst = /^([qh])(\d),? (\d{3,})$/.exec(text);
+  const yearFirst = /^(\d{3,})[ -]([qh])(\d)$/.exec(text);
+  if (!partFirst && !yearFirst) {
+    return [];
+  }
+
+  const kind = partFirst ? partFirst[1] : (yearFirst as RegExpExecArray)[2];
+  const part = Number(partFirst ? partFirst[2] : (yearFirst as RegExpExecArray)[3]);
+  const year = Number(partFirst ? partFirst[3] : (yearFirst as RegExpExecArray)[1]);
+  return attempt(() => new FuzzyDate({ year, [kind === 'q' ? 'quarter' : 'half']: part }))
+    .map(value => ({ value, weight: PREFERRED }));
+}
+
+/**
+ * Read a calendar date made of numbers and month names, optionally followed by a time of day
+ */
+function parseDateTime(text: string, locale: string): Interpretation[] {
+  const timeMatch = /^(.*?)[\s,]+(?:at )?(\d{1,2})(?::(\d{2})(?::(\d{2})(?:\.(\d{3}))?)?)? ?(am|pm)?$/.exec(text);
+  const hasTime = timeMatch !== null && (timeMatch[3] !== undefined || timeMatch[6] !== undefined);
+  const datePart = hasTime ? timeMatch[1] : text;
+
+  const tokens = tokenize(datePart, locale);
+  if (!tokens) {
+    return [];
+  }
+
+  let time: Partial<FuzzyDateOptions> = {};
+  if (hasTime) {
+    const [, , hour, minute, second, millisecond, meridiem] = timeMatch;
+    const parsedHour = toHour(Number(hour), meridiem);
+    if (parsedHour === undefined) {
+      return [];
+    }
+    time = {
+      hour: parsedHour,
+      minute: minute === undefined ? undefined : Number(minute),
+      second: second === undefined ? undefined : Number(second),
+      millisecond: millisecond === undefined ? undefined : Number(millisecond)
+    };
+  }
+
+  return readCalendarDates(tokens, locale)
+    .filter(({ options }) => !hasTime || options.day !== undefined)
+    .flatMap(({ options, weight }) =>
+      attempt(() => new FuzzyDate({ ...options, ...time })).map(value => ({ value, weight }))
+    );
+}
+
+/**
+ * Match the sequence of numbers and month names against the usual ways of writing a date
+ */
+function readCalendarDates(tokens: Token[], locale: string): { options: FuzzyDateOptions; weight: number }[] {
+  const pattern = tokens
+    .map(token => token.kind === 'month' ? 'M' : token.digits >= 3 ? 'Y' : 'N')
+    .join('');
+  const values = tokens.map(token => token.value);
+
+  switch (pattern) {
+    case 'Y':
+      return [{ options: { year: values[0] }, weight: PREFERRED }];
+    case 'MY':
+    case 'NY':
+      return [{ options: { year: values[1], month: values[0] }, weight: PREFERRED }];
+    case 'YM':
+    case 'YN':
+      return [{ options: { year: values[0], month: values[1] }, weight: PREFERRED }];
+    case 'NMY':
+      return [{ options: { year: values[2], month: values[1], day: values[0] }, weight: PREFERRED }];
+    case 'MNY':
+      return [{ options: { year: values[2], month: values[0], day: values[1] }, weight: PREFERRED }];
+    case 'YMN':
+    case 'YNN':
+      return [{ options: { year: values[0], month: values[1], day: values[2] }, weight: PREFERRED }];
+    case 'NNY': {
+      const monthFirst = isMonthBeforeDay(locale);
+      return [
+        { options: { year: values[2], month: values[0], day: values[1] }, weight: monthFirst ? PREFERRED : ALTERNATIVE },
+        { options: { year: values[2], month: values[1], day: values[0] }, weight: monthFirst ? ALTERNATIVE : PREFERRED }
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Split the date into numbers and month names, ignoring separators, ordinal suffixes and CJK date markers
+ * A leading minus sign belongs to the first number, as in the BC year "-500".
+ * Returns undefined when a word isn't part of a date.
+ */
+function tokenize(text: string, locale: string): Token[] | undefined {
+  const monthNames = getMonthNames(locale);
+  const words = text
+    .replace(/[年月]/g, ' ')
+    .replace(/日/g, '')
+    .replace(/(\d+)(?:st|nd|rd|th)\b/g, '$1')
+    .split(/[\s,./-]+/)
+    .filter(word => word !== '' && word !== 'of' && word !== 'the');
+
+  const tokens: Token[] = [];
+  for (const word of words) {
+    if (/^\d+$/.test(word)) {
+      const sign = tokens.length === 0 && /^-\d/.test(text) ? -1 : 1;
+      tokens.push({ kind: 'number', value: sign * Number(word), digits: word.length });
+    } else if (monthNames.has(word)) {
+      tokens.push({ kind: 'month', value: monthNames.get(word) as number });
+    } else {
+      return undefined;
+    }
+  }
+  return tokens.length > 0 ? tokens : undefined;
+}
+
+/**
+ * Month names and abbreviations in English and in the given locale, lowercased and without trailing dots
+ */
+function getMonthNames(locale: string): Map<string, number> {
+  const cached = monthNamesCache.get(locale);
+  if (cached) {
+    return cached;
+  }
+
+  const names = new Map<string, number>();
+  ENGLISH_MONTHS.forEach((name, index) => {
+    names.set(name, index + 1);
+    names.set(name.slice(0, 3), index + 1);
+  });
+  names.set('sept', 9);
+
+  for (const style of ['long', 'short'] as const) {
+    const format = new Intl.DateTimeFormat(locale, { month: style, timeZone: 'UTC' });
+    for (let month = 1; month <= 12; month++) {
+      const name = format.format(Date.UTC(2023, month - 1, 15)).toLowerCase().replace(/\.$/, '');
+      names.set(name, month);
+    }
+  }
+
+  monthNamesCache.set(locale, names);
+  return names;
+}
+
+/**
+ * Whether the locale writes the month before the day in numeric dates, such as "3/22/2023" in en-US
+ */
+function isMonthBeforeDay(locale: string): boolean {
+  const types = new Intl.DateTimeFormat(locale, { timeZone: 'UTC' })
+    .formatToParts(Date.UTC(2023, 2, 22))
+    .map(part => part.type);
+  return types.indexOf('month') < types.indexOf('day');
+}
+
+function toHour(hour: number, meridiem?: string): number | undefined {
+  if (meridiem === undefined) {
+    return hour;
+  }
+  if (hour < 1 || hour > 12) {
+    return undefined;
+  }
+  return (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+}
+
+function yearRange(start: number, end: number): FuzzyDateRange {
+  return new FuzzyDateRange({ start: new FuzzyDate({ year: start }), end: new FuzzyDate({ year: end }) });
+}
+
+function monthRange(startYear: number, startMonth: number, endYear: number, endMonth: number): FuzzyDateRange {
+  return new FuzzyDateRange({
+    start: new FuzzyDate({ year: startYear, month: startMonth }),
+    end: new FuzzyDate({ year: endYear, month: endMonth })
+  });
+}
+
+/**
+ * Run a constructor, treating its validation errors as "no reading"
+ */
+function attempt<T>(create: () => T): T[] {
+  try {
+    return [create()];
+  } catch {
+    return [];
+  }
+}
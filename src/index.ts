@@ -1 +1,7 @@
-export * from './fuzzyDate';
\ No newline at end of file
+export * from './fuzzyDate';
+export * from './fuzzyDateRange';
+export { FuzzyDateFormatOptions, FuzzyDateFormatStyle } from './format';
+export { HumanParseCandidate, HumanParseOptions, HumanParseResult } from './humanParser';
+export { AllenRelation, ALLEN_RELATIONS } from './relation';
+export { FUZZY_DATE_JSON_SCHEMA, reviveFuzzyDates } from './json';
+export { SqlDialect, SqlWhereClause, SqlWhereOptions, fromTsRange, toSqlBounds, toTsRange, whereDefinitelyBefore, whereDefinitelyWithin, wherePossiblyOverlaps } from './sql';
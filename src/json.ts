@@ -0,0 +1,59 @@
+import { FuzzyDate } from "./fuzzyDate";
+import { ISO_DURATION_SOURCE, SUB_YEAR_CODE_SOURCE, TIME_SOURCE } from "./util";
+
+const QUALIFIER = '[?~%]?';
+
+/**
+ * Two digits other than the codes of quarters and halves, which take no qualifiers, such as "05" or "13"
+ */
+const MONTH = '(?:[0-25-9]\\d|3[0-27-9]|4[2-9])';
+
+/**
+ * JSON Schema of a Fuzzy Date String, also usable as an OpenAPI schema object
+ * 
+ * The pattern accepts exactly the strings that FuzzyDate.fromString can read, leaving out the checks that need a
+ * calendar, such as the number of days in a month, whether a time zone exists or whether an offset matches it.
+ * It has no lookaheads, so validators on RE2 and other engines without them can use it.
+ */
+export const FUZZY_DATE_JSON_SCHEMA = Object.freeze({
+  type: 'string',
+  format: 'fuzzy-date',
+  pattern: `^${QUALIFIER}-?\\d+(X{1,3}${QUALIFIER}|${QUALIFIER}(-(${QUALIFIER}${MONTH}${QUALIFIER}(-${QUALIFIER}\\d{2}${TIME_SOURCE}${QUALIFIER})?` +
+    `|${SUB_YEAR_CODE_SOURCE}(-\\d{2}${TIME_SOURCE})?|W\\d{2}(-[1-7]${TIME_SOURCE})?))?)(±${ISO_DURATION_SOURCE})?$`,
+  description: 'Date with variable precision, such as "2023", "2023-05-15T10:30Z", "198X", "2023-W12" or "1850~±P5Y"'
+});
+
+/**
+ * Revive the Fuzzy Date Strings at some paths of a parsed JSON value, leaving the rest of it as it is
+ * @param paths Keys separated by ".", with "*" for every element of an array or value of an object,
+ * such as "born" or "events.*.date"
+ * @throws {FuzzyDateDeserializationError} When a string at one of the paths isn't a valid Fuzzy Date String
+ * @returns A copy of the value along the paths, with FuzzyDates in place of their strings
+ * 
+ * Missing keys and values that aren't strings are skipped, so optional dates can be listed like any other.
+ */
+export function reviveFuzzyDates<T = unknown>(value: unknown, paths: readonly string[]): T {
+  return paths.reduce((revived, path) => reviveAt(revived, path.split('.')), value) as T;
+}
+
+function reviveAt(value: unknown, keys: string[]): unknown {
+  if (keys.length === 0) {
+    return typeof value === 'string' ? FuzzyDate.fromString(value) : value;
+  }
+  if (typeof value !== 'object' || value === null || value instanceof FuzzyDate) {
+    return value;
+  }
+
+  const [key, ...rest] = keys;
+  if (Array.isArray(value)) {
+    return value.map((item, index) => key === '*' || key === index.toString() ? reviveAt(item, rest) : item);
+  }
+
+  const copy: Record<string, unknown> = { ...value };
+  for (const name of key === '*' ? Object.keys(copy) : [key]) {
+    if (Object.prototype.hasOwnProperty.call(copy, name)) {
+      copy[name] = reviveAt(copy[name], rest);
+    }
+  }
+  return copy;
+}
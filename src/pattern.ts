@@ -0,0 +1,252 @@
+import { FuzzyDateCalendarError, FuzzyDateDeserializationError, FuzzyDatePatternError } from "./errors";
+import { FuzzyDate, FuzzyDateOptions } from "./fuzzyDate";
+import { ENGLISH_MONTHS, isEmpty, isNegative } from "./util";
+
+type Field = 'year' | 'half' | 'quarter' | 'month' | 'day' | 'week' | 'weekday' | 'hour' | 'minute' | 'second' | 'millisecond';
+
+type PatternNode =
+  | { kind: 'literal'; text: string }
+  | { kind: 'token'; token: string }
+  | { kind: 'optional'; nodes: PatternNode[] };
+
+interface TokenDefinition {
+  field: Field;
+  source: string;
+  render(value: number): string;
+  read(text: string): number;
+}
+
+const pad = (length: number) => (value: number) => value.toString().padStart(length, '0');
+
+const SHORT_MONTHS = ENGLISH_MONTHS.map(name => name.slice(0, 3));
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const numeric = (field: Field, source: string, render: (value: number) => string = String): TokenDefinition =>
+  ({ field, source, render, read: Number });
+
+// Years may end in the unspecified digits of a decade, century or millennium, such as 198X
+const YEAR: TokenDefinition = numeric('year', '-?\\d+X{0,3}', year => (isNegative(year) ? '-' : '') + Math.abs(year));
+const PADDED_YEAR: TokenDefinition = numeric(
+  'year',
+  '-?(?=[\\dX]{4})\\d+X{0,3}',
+  year => (isNegative(year) ? '-' : '') + pad(4)(Math.abs(year))
+);
+const DAY = numeric('day', '\\d{1,2}');
+const PADDED_DAY = numeric('day', '\\d{2}', pad(2));
+
+/**
+ * Tokens of a pattern, after the Unicode and Moment.js conventions
+ * The ISO week "W" and weekday "E" take the year as their week-year.
+ * Years render the unspecified digits of decades, centuries and millennia as X.
+ * The meridiem "a" shares the hour field, and its value is added to a 12-hour "h" when parsing.
+ */
+const TOKENS: Record<string, TokenDefinition> = {
+  y: YEAR,
+  Y: YEAR,
+  yyyy: PADDED_YEAR,
+  YYYY: PADDED_YEAR,
+  Q: numeric('quarter', '[1-4]'),
+  M: numeric('month', '\\d{1,2}'),
+  MM: numeric('month', '\\d{2}', pad(2)),
+  MMM: {
+    field: 'month',
+    source: SHORT_MONTHS.join('|'),
+    render: month => capitalize(SHORT_MONTHS[month - 1]),
+    read: text => SHORT_MONTHS.indexOf(text.toLowerCase()) + 1
+  },
+  MMMM: {
+    field: 'month',
+    source: ENGLISH_MONTHS.join('|'),
+    render: month => capitalize(ENGLISH_MONTHS[month - 1]),
+    read: text => ENGLISH_MONTHS.indexOf(text.toLowerCase()) + 1
+  },
+  d: DAY,
+  D: DAY,
+  dd: PADDED_DAY,
+  DD: PADDED_DAY,
+  W: numeric('week', '\\d{1,2}'),
+  WW: numeric('week', '\\d{2}', pad(2)),
+  E: numeric('weekday', '[1-7]'),
+  H: numeric('hour', '\\d{1,2}'),
+  HH: numeric('hour', '\\d{2}', pad(2)),
+  h: numeric('hour', '\\d{1,2}', hour => String(hour % 12 || 12)),
+  hh: numeric('hour', '\\d{2}', hour => pad(2)(hour % 12 || 12)),
+  a: {
+    field: 'hour',
+    source: 'am|pm',
+    render: hour => hour < 12 ? 'AM' : 'PM',
+    read: text => text.toLowerCase() === 'pm' ? 12 : 0
+  },
+  m: numeric('minute', '\\d{1,2}'),
+  mm: numeric('minute', '\\d{2}', pad(2)),
+  s: numeric('second', '\\d{1,2}'),
+  ss: numeric('second', '\\d{2}', pad(2)),
+  SSS: numeric('millisecond', '\\d{3}', pad(3))
+};
+
+const TWELVE_HOUR_TOKENS = ['h', 'hh'];
+
+const compiledPatterns = new Map<string, PatternNode[]>();
+
+/**
+ * Render a FuzzyDate with a token pattern, skipping optional segments whose fields the date doesn't have
+ * @throws {FuzzyDatePatternError} When the pattern is invalid, or requires a field the date doesn't have
+ */
+export function formatPattern(date: FuzzyDate, pattern: string): string {
+  return renderNodes(compile(pattern), date, pattern);
+}
+
+/**
+ * Read a FuzzyDate from input written in a token pattern, with the precision of the segments present
+ * @throws {FuzzyDatePatternError} When the pattern is invalid, or has a meridiem "a" without a 12-hour "h" or "hh"
+ * @throws {FuzzyDateDeserializationError} When the input doesn't match the pattern
+ * @throws {FuzzyDateHierarchyError} When the matched fields aren't filled in hierarchical order
+ * @throws {FuzzyDateCalendarError} When the matched fields aren't a valid calendar date, or a 12-hour hour isn't from 1 to 12
+ */
+export function parsePattern(input: string, pattern: string): FuzzyDate {
+  const nodes = compile(pattern);
+  const tokens: string[] = [];
+  const source = toSource(nodes, tokens);
+  if (tokens.includes('a') && !tokens.some(token => TWELVE_HOUR_TOKENS.includes(token))) {
+    throw new FuzzyDatePatternError(`Meridiem "a" needs a 12-hour "h" or "hh" in pattern "${pattern}"`);
+  }
+
+  const match = new RegExp(`^${source}$`, 'i').exec(input);
+  if (!match) {
+    throw new FuzzyDateDeserializationError(`Input does not match pattern "${pattern}"`);
+  }
+
+  const options: Partial<FuzzyDateOptions> = {};
+  let meridiem: number | undefined;
+  tokens.forEach((token, index) => {
+    const text = match[index + 1];
+    if (text === undefined) {
+      return;
+    }
+    if (token === 'a') {
+      meridiem = TOKENS.a.read(text);
+    } else if (TWELVE_HOUR_TOKENS.includes(token) && !(Number(text) >= 1 && Number(text) <= 12)) {
+      throw new FuzzyDateCalendarError('range', 'hour');
+    } else if (TOKENS[token].field === 'year' && /x/i.test(text)) {
+      options.year = TOKENS[token].read(text.replace(/x/gi, '0'));
+      options.unspecifiedYearDigits = text.replace(/[^x]/gi, '').length;
+    } else {
+      options[TOKENS[token].field] = TOKENS[token].read(text);
+    }
+  });
+
+  if (meridiem !== undefined && options.hour !== undefined) {
+    options.hour = options.hour % 12 + meridiem;
+  }
+  return new FuzzyDate(options as FuzzyDateOptions);
+}
+
+/**
+ * Split a pattern into literals, tokens and nested optional segments
+ * Text in single quotes is literal, and two single quotes stand for one.
+ */
+function compile(pattern: string): PatternNode[] {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const stack: PatternNode[][] = [[]];
+  let index = 0;
+  while (index < pattern.length) {
+    const nodes = stack[stack.length - 1];
+    const char = pattern[index];
+
+    if (char === '[') {
+      const optional: PatternNode = { kind: 'optional', nodes: [] };
+      nodes.push(optional);
+      stack.push(optional.nodes);
+      index++;
+    } else if (char === ']') {
+      if (stack.length === 1) {
+        throw new FuzzyDatePatternError(`Unbalanced "]" in pattern "${pattern}"`);
+      }
+      stack.pop();
+      index++;
+    } else if (char === "'") {
+      const end = pattern.indexOf("'", index + 1);
+      if (end === -1) {
+        throw new FuzzyDatePatternError(`Unterminated quote in pattern "${pattern}"`);
+      }
+      nodes.push({ kind: 'literal', text: end === index + 1 ? "'" : pattern.slice(index + 1, end) });
+      index = end + 1;
+    } else if (/[a-z]/i.test(char)) {
+      let end = index;
+      while (pattern[end] === char) {
+        end++;
+      }
+      const token = pattern.slice(index, end);
+      if (!Object.prototype.hasOwnProperty.call(TOKENS, token)) {
+        throw new FuzzyDatePatternError(`Unknown token "${token}" in pattern "${pattern}"`);
+      }
+      nodes.push({ kind: 'token', token });
+      index = end;
+    } else {
+      nodes.push({ kind: 'literal', text: char });
+      index++;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new FuzzyDatePatternError(`Unbalanced "[" in pattern "${pattern}"`);
+  }
+
+  compiledPatterns.set(pattern, stack[0]);
+  return stack[0];
+}
+
+function renderNodes(nodes: PatternNode[], date: FuzzyDate, pattern: string): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'literal':
+        return node.text;
+      case 'token': {
+        const { field, render } = TOKENS[node.token];
+        const value = date[field];
+        if (isEmpty(value)) {
+          throw new FuzzyDatePatternError(`Missing ${field} for token "${node.token}" in pattern "${pattern}"`);
+        }
+        const text = render(value);
+        const unspecifiedDigits = field === 'year' ? date.unspecifiedYearDigits ?? 0 : 0;
+        if (unspecifiedDigits === 0) {
+          return text;
+        }
+        // Keep one specified digit at least, as in "0X" and "-0X"
+        const digits = text.replace('-', '').padStart(unspecifiedDigits + 1, '0');
+        return (text.startsWith('-') ? '-' : '') + digits.slice(0, -unspecifiedDigits) + 'X'.repeat(unspecifiedDigits);
+      }
+      case 'optional':
+        return hasFields(node.nodes, date) ? renderNodes(node.nodes, date, pattern) : '';
+    }
+  }).join('');
+}
+
+/**
+ * Whether the date has the fields of the tokens directly in the segment, nested segments deciding for themselves
+ */
+function hasFields(nodes: PatternNode[], date: FuzzyDate): boolean {
+  return nodes.every(node => node.kind !== 'token' || !isEmpty(date[TOKENS[node.token].field]));
+}
+
+/**
+ * Build a regular expression source for the nodes, collecting the token of each capture group in order
+ */
+function toSource(nodes: PatternNode[], tokens: string[]): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'literal':
+        return node.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      case 'token':
+        tokens.push(node.token);
+        return `(${TOKENS[node.token].source})`;
+      case 'optional':
+        return `(?:${toSource(node.nodes, tokens)})?`;
+    }
+  }).join('');
+}
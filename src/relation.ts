@@ -0,0 +1,117 @@
+/**
+ * The 13 relations of Allen's interval algebra, read as "a <relation> b"
+ */
+export type AllenRelation =
+  | 'before'
+  | 'meets'
+  | 'overlaps'
+  | 'starts'
+  | 'during'
+  | 'finishes'
+  | 'equals'
+  | 'finishedBy'
+  | 'contains'
+  | 'startedBy'
+  | 'overlappedBy'
+  | 'metBy'
+  | 'after';
+
+export const ALLEN_RELATIONS: readonly AllenRelation[] = [
+  'before',
+  'meets',
+  'overlaps',
+  'starts',
+  'during',
+  'finishes',
+  'equals',
+  'finishedBy',
+  'contains',
+  'startedBy',
+  'overlappedBy',
+  'metBy',
+  'after'
+];
+
+/**
+ * Possible positions of the endpoints of a half-open interval [start, end), in milliseconds
+ * Each endpoint is known to lie within its inclusive [min, max] bounds.
+ */
+export interface IntervalBounds {
+  start: [number, number];
+  end: [number, number];
+}
+
+const A_START = 0;
+const A_END = 1;
+const B_START = 2;
+const B_END = 3;
+const ORIGIN = 4;
+
+type Constraint = [number, '<' | '=', number];
+
+const RELATION_CONSTRAINTS: Record<AllenRelation, Constraint[]> = {
+  before: [[A_END, '<', B_START]],
+  meets: [[A_END, '=', B_START]],
+  overlaps: [[A_START, '<', B_START], [B_START, '<', A_END], [A_END, '<', B_END]],
+  starts: [[A_START, '=', B_START], [A_END, '<', B_END]],
+  during: [[B_START, '<', A_START], [A_END, '<', B_END]],
+  finishes: [[B_START, '<', A_START], [A_END, '=', B_END]],
+  equals: [[A_START, '=', B_START], [A_END, '=', B_END]],
+  finishedBy: [[A_START, '<', B_START], [A_END, '=', B_END]],
+  contains: [[A_START, '<', B_START], [B_END, '<', A_END]],
+  startedBy: [[A_START, '=', B_START], [B_END, '<', A_END]],
+  overlappedBy: [[B_START, '<', A_START], [A_START, '<', B_END], [B_END, '<', A_END]],
+  metBy: [[B_END, '=', A_START]],
+  after: [[B_END, '<', A_START]]
+};
+
+/**
+ * Get every Allen relation that some choice of endpoints within the given bounds satisfies
+ * 
+ * Endpoints are whole milliseconds and every interval must be non-empty.
+ */
+export function getPossibleRelations(a: IntervalBounds, b: IntervalBounds): AllenRelation[] {
+  return ALLEN_RELATIONS.filter(relation => isSatisfiable(a, b, RELATION_CONSTRAINTS[relation]));
+}
+
+/**
+ * Solve the constraints as a system of difference constraints over integers,
+ * which is satisfiable exactly when its constraint graph has no negative cycle
+ */
+function isSatisfiable(a: IntervalBounds, b: IntervalBounds, constraints: Constraint[]): boolean {
+  // An edge [from, to, weight] encodes "to - from <= weight"
+  const edges: Array<[number, number, number]> = [];
+  const addBounds = (node: number, [min, max]: [number, number]) => {
+    edges.push([ORIGIN, node, max], [node, ORIGIN, -min]);
+  };
+  const addConstraint = ([left, operator, right]: Constraint) => {
+    if (operator === '<') {
+      edges.push([right, left, -1]);
+    } else {
+      edges.push([right, left, 0], [left, right, 0]);
+    }
+  };
+
+  addBounds(A_START, a.start);
+  addBounds(A_END, a.end);
+  addBounds(B_START, b.start);
+  addBounds(B_END, b.end);
+  addConstraint([A_START, '<', A_END]);
+  addConstraint([B_START, '<', B_END]);
+  constraints.forEach(addConstraint);
+
+  const distances = [0, 0, 0, 0, 0];
+  for (let i = 0; i < distances.length; i++) {
+    let relaxed = false;
+    for (const [from, to, weight] of edges) {
+      if (distances[from] + weight < distances[to]) {
+        distances[to] = distances[from] + weight;
+        relaxed = true;
+      }
+    }
+    if (!relaxed) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,174 @@
+import { fromEpochMilliseconds, isValidDateTime, toEpochMilliseconds } from "./calendar";
+import { FuzzyDateDeserializationError, FuzzyDateError } from "./errors";
+import { FUZZY_DATE_PRECISIONS, FuzzyDate } from "./fuzzyDate";
+
+/**
+ * SQL dialects of the WHERE-clause builders
+ * - postgres: "$1" placeholders, with timestamps as "YYYY-MM-DD HH:MM:SS.mmm" strings in UTC,
+ *   which PostgreSQL only takes from November 24, 4714 BC
+ * - sqlite: "?" placeholders, with timestamps as milliseconds since the epoch, which sort correctly for every year
+ */
+export type SqlDialect = 'postgres' | 'sqlite';
+
+/**
+ * Options of the WHERE-clause builders
+ * - earliest, latest: columns holding the earliest and latest padding of each row as written by toSqlBounds,
+ *   defaulting to "earliest" and "latest". They are quoted, and may be qualified by a table as in "events.earliest".
+ * - firstParameter: number of the first PostgreSQL placeholder, defaults to 1, to add the clause to a query
+ *   that already has parameters
+ */
+export interface SqlWhereOptions {
+  dialect: SqlDialect;
+  earliest?: string;
+  latest?: string;
+  firstParameter?: number;
+}
+
+/**
+ * Parameterized WHERE clause, without the WHERE keyword
+ */
+export interface SqlWhereClause {
+  sql: string;
+  params: (string | number)[];
+}
+
+/**
+ * First moment of a PostgreSQL timestamp, November 24, 4714 BC, which is the year -4713
+ */
+const EARLIEST_TIMESTAMP = toEpochMilliseconds({ year: -4713, month: 11, day: 24, hour: 0, minute: 0, second: 0, millisecond: 0 });
+
+const TIMESTAMP_SOURCE = '(\\d{4,})-(\\d{2})-(\\d{2})[ T](\\d{2}):(\\d{2}):(\\d{2})(?:\\.(\\d{1,6}))?( BC)?';
+
+/**
+ * Write a FuzzyDate as a PostgreSQL tsrange literal, from its earliest padding included to 1 millisecond after
+ * its latest padding excluded
+ *
+ * The timestamps are in UTC, with floating dates read as UTC, like toEpochRange.
+ * @throws {FuzzyDateError} When the date starts before November 24, 4714 BC, the first PostgreSQL timestamp
+ * @example toTsRange(FuzzyDate.fromString("2023-05")) // '["2023-05-01 00:00:00.000","2023-06-01 00:00:00.000")'
+ */
+export function toTsRange(date: FuzzyDate): string {
+  const { earliest, latest } = date.toEpochRange();
+  return `["${formatTimestamp(earliest)}","${formatTimestamp(latest + 1)}")`;
+}
+
+/**
+ * Read a PostgreSQL tsrange literal back into the coarsest FuzzyDate covering exactly the same moments
+ * @param options.zone Zone of the FuzzyDate, defaults to floating. The timestamps are read as UTC either way.
+ * @throws {FuzzyDateDeserializationError} When the literal isn't a bounded tsrange, a bound has microseconds
+ * finer than 1 millisecond, or no FuzzyDate covers it exactly
+ * @throws {FuzzyDateZoneError} When zone isn't a known time zone
+ *
+ * Bounds may be inclusive or exclusive, at a resolution of 1 millisecond. Tolerances can't be read back,
+ * since they only widen the range.
+ */
+export function fromTsRange(literal: string, options: { zone?: string } = {}): FuzzyDate {
+  const match = new RegExp(`^\\s*([[(])\\s*"?${TIMESTAMP_SOURCE}"?\\s*,\\s*"?${TIMESTAMP_SOURCE}"?\\s*([\\])])\\s*$`).exec(literal);
+  if (!match) {
+    throw new FuzzyDateDeserializationError('Invalid tsrange literal');
+  }
+
+  const earliest = parseTimestamp(match.slice(2, 10)) + (match[1] === '(' ? 1 : 0);
+  const latest = parseTimestamp(match.slice(10, 18)) - (match[18] === ')' ? 1 : 0);
+
+  const zone = options.zone ?? 'floating';
+  // Precisions go from coarsest to finest, so the coarsest date covering the range wins
+  for (const precision of FUZZY_DATE_PRECISIONS) {
+    const date = FuzzyDate.fromDate(new Date(earliest), precision, { zone });
+    const range = date.toEpochRange();
+    if (range.earliest === earliest && range.latest === latest) {
+      return date;
+    }
+  }
+  throw new FuzzyDateDeserializationError('tsrange must cover exactly the moments of a FuzzyDate');
+}
+
+/**
+ * Get the earliest and latest padding of a FuzzyDate as parameters of a dialect, to store alongside the date
+ * The WHERE-clause builders expect their columns to hold these values.
+ * @throws {FuzzyDateError} With the postgres dialect, when the date starts before November 24, 4714 BC
+ */
+export function toSqlBounds(date: FuzzyDate, dialect: SqlDialect): { earliest: string | number; latest: string | number } {
+  const { earliest, latest } = date.toEpochRange();
+  return { earliest: toParameter(earliest, dialect), latest: toParameter(latest, dialect) };
+}
+
+/**
+ * Match the rows whose every possible moment is within a FuzzyDate, such as "2023-05-15" within "2023-05"
+ */
+export function whereDefinitelyWithin(date: FuzzyDate, options: SqlWhereOptions): SqlWhereClause {
+  const { earliest, latest } = date.toEpochRange();
+  return buildClause(options, [['earliest', '>=', earliest], ['latest', '<=', latest]]);
+}
+
+/**
+ * Match the rows that share at least one possible moment with a FuzzyDate, such as "2023" with "2023-05"
+ */
+export function wherePossiblyOverlaps(date: FuzzyDate, options: SqlWhereOptions): SqlWhereClause {
+  const { earliest, latest } = date.toEpochRange();
+  return buildClause(options, [['earliest', '<=', latest], ['latest', '>=', earliest]]);
+}
+
+/**
+ * Match the rows whose every possible moment is before every possible moment of a FuzzyDate
+ */
+export function whereDefinitelyBefore(date: FuzzyDate, options: SqlWhereOptions): SqlWhereClause {
+  const { earliest } = date.toEpochRange();
+  return buildClause(options, [['latest', '<', earliest]]);
+}
+
+function buildClause(options: SqlWhereOptions, conditions: ['earliest' | 'latest', string, number][]): SqlWhereClause {
+  const firstParameter = options.firstParameter ?? 1;
+  const sql = conditions.map(([column, operator], index) => {
+    const placeholder = options.dialect === 'postgres' ? `$${firstParameter + index}::timestamp` : '?';
+    return `${quoteIdentifier(options[column] ?? column)} ${operator} ${placeholder}`;
+  });
+
+  return {
+    sql: sql.join(' AND '),
+    params: conditions.map(([, , moment]) => toParameter(moment, options.dialect))
+  };
+}
+
+function toParameter(milliseconds: number, dialect: SqlDialect): string | number {
+  return dialect === 'postgres' ? formatTimestamp(milliseconds) : milliseconds;
+}
+
+/**
+ * Quote each part of a possibly qualified name, doubling the quotes inside it
+ */
+function quoteIdentifier(name: string): string {
+  return name.split('.').map(part => `"${part.replace(/"/g, '""')}"`).join('.');
+}
+
+/**
+ * Format a moment as a PostgreSQL timestamp in UTC, with years before 1 as BC years
+ */
+function formatTimestamp(milliseconds: number): string {
+  if (milliseconds < EARLIEST_TIMESTAMP) {
+    throw new FuzzyDateError('FuzzyDate is too early to be written as a PostgreSQL timestamp', 'range');
+  }
+  const { year, month, day, hour, minute, second, millisecond } = fromEpochMilliseconds(milliseconds);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  const era = year < 1 ? ' BC' : '';
+  return `${pad(year < 1 ? 1 - year : year, 4)}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}.${pad(millisecond, 3)}${era}`;
+}
+
+function parseTimestamp([year, month, day, hour, minute, second, fraction = '', era]: string[]): number {
+  if (/[1-9]/.test(fraction.slice(3))) {
+    throw new FuzzyDateDeserializationError('tsrange bounds must be whole milliseconds');
+  }
+  const options = {
+    year: era ? 1 - Number(year) : Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+    millisecond: Number(fraction.padEnd(3, '0').slice(0, 3))
+  };
+  if (!isValidDateTime(options)) {
+    throw new FuzzyDateDeserializationError('Invalid tsrange literal');
+  }
+  return toEpochMilliseconds(options);
+}
@@ -1,3 +1,100 @@
+import type { DurationOptions } from "./fuzzyDate";
+
+export const DURATION_UNITS = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'] as const;
+
+export const ENGLISH_MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+/**
+ * Regular expression source of the time and zone that may follow a full date, such as "T10:30+02:00[Europe/Paris]"
+ */
+export const TIME_SOURCE =
+  '(T\\d{2}(:\\d{2}(:\\d{2}(\\.\\d{3})?)?)?(Z|[+-]\\d{2}:\\d{2}(\\[[^\\]]+\\])?|\\[[^\\]]+\\])?)?';
+
+/**
+ * Regular expression source of the EDTF codes of quarters, "33" to "36", and halves, "40" and "41"
+ */
+export const SUB_YEAR_CODE_SOURCE = '(?:3[3-6]|4[01])';
+
+/**
+ * Build a regular expression source matching parts in order, each of them optional but at least one of them present
+ * Spelled out as alternatives rather than with a lookahead, so that RE2 and other engines without lookaheads take it.
+ */
+function atLeastOneOf(parts: string[]): string {
+  return `(?:${parts.map((part, index) => part + parts.slice(index + 1).map(next => `(?:${next})?`).join('')).join('|')})`;
+}
+
+const ISO_DURATION_DATE_SOURCE = atLeastOneOf(['\\d+Y', '\\d+M', '\\d+W', '\\d+D']);
+const ISO_DURATION_TIME_SOURCE = atLeastOneOf(['\\d+H', '\\d+M', '\\d+(?:\\.\\d{3})?S']);
+
+/**
+ * Regular expression source of an ISO 8601 duration with at least one unit, such as "P5Y" or "PT1.500S"
+ */
+export const ISO_DURATION_SOURCE =
+  `P(?:${ISO_DURATION_DATE_SOURCE}(?:T${ISO_DURATION_TIME_SOURCE})?|T${ISO_DURATION_TIME_SOURCE})`;
+
+/**
+ * Units of an ISO 8601 duration, capturing each of DURATION_UNITS in order
+ */
+const ISO_DURATION_UNITS = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)(?:\.(\d{3}))?S)?)?$/;
+
 export function isEmpty(value: unknown): value is undefined {
   return value === undefined || value === null || Number.isNaN(value);
+}
+
+/**
+ * Whether a number has a minus sign, counting -0 as the year of the BC decade, century or millennium such as "-0X"
+ */
+export function isNegative(value: number): boolean {
+  return value < 0 || Object.is(value, -0);
+}
+
+/**
+ * Format an offset from UTC in minutes as "±HH:MM"
+ */
+export function formatOffset(offset: number): string {
+  const hours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
+  const minutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+}
+
+/**
+ * Read an offset from UTC written as "±HH:MM", in minutes
+ */
+export function parseOffset(offset: string): number {
+  return (offset.startsWith('-') ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)));
+}
+
+/**
+ * Format a duration as ISO 8601, such as "P5Y" or "PT1.500S", carrying milliseconds into seconds
+ */
+export function formatIsoDuration(duration: DurationOptions): string {
+  const milliseconds = duration.milliseconds ?? 0;
+  const seconds = (duration.seconds ?? 0) + Math.floor(milliseconds / 1000);
+  const fraction = milliseconds % 1000 ? `.${(milliseconds % 1000).toString().padStart(3, '0')}` : '';
+  const unit = (value: number | string | undefined, designator: string) => value ? `${value}${designator}` : '';
+
+  const date = unit(duration.years, 'Y') + unit(duration.months, 'M') + unit(duration.weeks, 'W') + unit(duration.days, 'D');
+  const time = unit(duration.hours, 'H') + unit(duration.minutes, 'M') + unit(seconds || fraction ? `${seconds}${fraction}` : undefined, 'S');
+  return `P${date}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Read an ISO 8601 duration such as "P5Y" or "PT1.500S", or undefined when it isn't one
+ */
+export function parseIsoDuration(text: string): DurationOptions | undefined {
+  const match = new RegExp(`^${ISO_DURATION_SOURCE}$`).test(text) ? ISO_DURATION_UNITS.exec(text) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const duration: DurationOptions = {};
+  DURATION_UNITS.forEach((unit, index) => {
+    if (match[index + 1] !== undefined) {
+      duration[unit] = Number(match[index + 1]);
+    }
+  });
+  return duration;
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { toDayjsEarliest, toDayjsLatest } from "../../src/adapters/dayjs";
+import { toLuxonEarliest, toLuxonLatest } from "../../src/adapters/luxon";
+import { toMomentEarliest, toMomentLatest } from "../../src/adapters/moment";
+
+describe("Adapters", () => {
+  test("should run in a system zone away from UTC", () => {
+    expect(new Date(0).getTimezoneOffset()).not.toBe(0);
+  });
+
+  test.each([
+    "2023",
+    "2023-05-15T10",
+    "1850±P5Y",
+    "2023-05-15T10:30+05:30",
+    "2023-05-15T10+02:00[Europe/Paris]",
+    "2023-03-12T01:30:15.250-05:00[America/New_York]"
+  ])("should agree on the moments of %s", value => {
+    const date = FuzzyDate.fromString(value);
+    const { earliest, latest } = date.toEpochRange();
+
+    expect([toDayjsEarliest(date), toLuxonEarliest(date), toMomentEarliest(date)].map(moment => moment.valueOf()))
+      .toEqual([earliest, earliest, earliest]);
+    expect([toDayjsLatest(date), toLuxonLatest(date), toMomentLatest(date)].map(moment => moment.valueOf()))
+      .toEqual([latest, latest, latest]);
+  });
+});
@@ -0,0 +1,34 @@
+import dayjs from "dayjs";
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { fromDayjs, toDayjsEarliest, toDayjsInterval, toDayjsLatest } from "../../src/adapters/dayjs";
+
+describe("Day.js adapter", () => {
+  test("should keep the fields down to the given precision", () => {
+    const value = dayjs(new Date(2023, 4, 15, 10, 30, 45, 500));
+
+    expect(fromDayjs(value, 'day').toString()).toBe("2023-05-15");
+    expect(fromDayjs(value, 'millisecond').hour).toBe(10);
+    expect(fromDayjs(value, 'millisecond').toDateRange().start.getTime()).toBe(value.valueOf());
+  });
+
+  test("should return the earliest and latest moments", () => {
+    const date = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Asia/Tokyo' });
+
+    expect(toDayjsEarliest(date).toISOString()).toBe("2023-05-14T15:00:00.000Z");
+    expect(toDayjsLatest(date).toISOString()).toBe("2023-05-15T14:59:59.999Z");
+  });
+
+  test("should read floating dates as UTC", () => {
+    const date = new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10 });
+
+    expect(toDayjsEarliest(date).toISOString()).toBe("2023-05-15T10:00:00.000Z");
+    expect(toDayjsLatest(date).toISOString()).toBe("2023-05-15T10:59:59.999Z");
+  });
+
+  test("should return both moments as an interval", () => {
+    const { start, end } = toDayjsInterval(new FuzzyDate({ year: 2023 }));
+
+    expect(start.toISOString()).toBe("2023-01-01T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2023-12-31T23:59:59.999Z");
+  });
+});
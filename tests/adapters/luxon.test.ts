@@ -0,0 +1,54 @@
+import { DateTime } from "luxon";
+import { FuzzyDate, FuzzyDateCalendarError } from "../../src/fuzzyDate";
+import { fromLuxon, toLuxonEarliest, toLuxonInterval, toLuxonLatest } from "../../src/adapters/luxon";
+
+describe("Luxon adapter", () => {
+  describe("fromLuxon", () => {
+    test("should keep the fields down to the given precision in the zone of the DateTime", () => {
+      const value = DateTime.fromISO("2023-05-15T10:30:45.500", { zone: 'Europe/Paris' });
+
+      expect(fromLuxon(value, 'month').toString()).toBe("2023-05");
+      expect(fromLuxon(value, 'minute').toString()).toBe("2023-05-15T10:30+02:00[Europe/Paris]");
+      expect(fromLuxon(value, 'millisecond').zone).toBe('Europe/Paris');
+    });
+
+    test("should take fixed offsets and UTC", () => {
+      expect(fromLuxon(DateTime.fromISO("2023-05-15T10:30:00+05:30", { setZone: true }), 'minute').toString())
+        .toBe("2023-05-15T10:30+05:30");
+      expect(fromLuxon(DateTime.fromISO("2023-05-15T10:30:00Z", { zone: 'utc' }), 'hour').toString())
+        .toBe("2023-05-15T10Z");
+    });
+
+    test("should throw FuzzyDateCalendarError for invalid DateTimes", () => {
+      expect(() => fromLuxon(DateTime.invalid('test'), 'day')).toThrow(FuzzyDateCalendarError);
+    });
+  });
+
+  describe("toLuxonEarliest and toLuxonLatest", () => {
+    test("should return DateTimes in the zone of the FuzzyDate", () => {
+      const date = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Asia/Tokyo' });
+
+      expect(toLuxonEarliest(date).toISO()).toBe("2023-05-15T00:00:00.000+09:00");
+      expect(toLuxonLatest(date).toISO()).toBe("2023-05-15T23:59:59.999+09:00");
+      expect(toLuxonLatest(new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10, zone: '-08:00' })).toISO())
+        .toBe("2023-05-15T10:59:59.999-08:00");
+    });
+
+    test("should read floating dates as UTC", () => {
+      const date = new FuzzyDate({ year: 2023, month: 5 });
+
+      expect(toLuxonEarliest(date).toISO()).toBe("2023-05-01T00:00:00.000Z");
+      expect(toLuxonLatest(date).toISO()).toBe("2023-05-31T23:59:59.999Z");
+    });
+  });
+
+  describe("toLuxonInterval", () => {
+    test("should return a half-open interval covering the whole range", () => {
+      const interval = toLuxonInterval(new FuzzyDate({ year: 2024, month: 2 }));
+
+      expect(interval.toISO()).toBe("2024-02-01T00:00:00.000Z/2024-03-01T00:00:00.000Z");
+      expect(interval.length('days')).toBe(29);
+      expect(interval.contains(DateTime.fromISO("2024-02-29T23:59:59.999Z"))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import moment from "moment";
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { fromMoment, toMomentEarliest, toMomentInterval, toMomentLatest } from "../../src/adapters/moment";
+
+describe("Moment adapter", () => {
+  test("should keep the fields down to the given precision at the offset of the Moment", () => {
+    const value = moment.parseZone("2023-05-15T10:30:45.500+05:30");
+
+    expect(fromMoment(value, 'month').toString()).toBe("2023-05");
+    expect(fromMoment(value, 'minute').toString()).toBe("2023-05-15T10:30+05:30");
+    expect(fromMoment(moment.utc("2023-05-15T10:30:45.500Z"), 'hour').toString()).toBe("2023-05-15T10Z");
+  });
+
+  test("should return Moments at the offset of the zone", () => {
+    const date = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Europe/Paris' });
+
+    expect(toMomentEarliest(date).format()).toBe("2023-05-15T00:00:00+02:00");
+    expect(toMomentLatest(date).format('YYYY-MM-DDTHH:mm:ss.SSSZ')).toBe("2023-05-15T23:59:59.999+02:00");
+  });
+
+  test("should follow DST transitions within the range", () => {
+    const { start, end } = toMomentInterval(new FuzzyDate({ year: 2023, month: 3, zone: 'Europe/Paris' }));
+
+    expect(start.format()).toBe("2023-03-01T00:00:00+01:00");
+    expect(end.format()).toBe("2023-03-31T23:59:59+02:00");
+  });
+
+  test("should read floating dates as UTC", () => {
+    const { start, end } = toMomentInterval(new FuzzyDate({ year: 2023 }));
+
+    expect(start.format()).toBe("2023-01-01T00:00:00Z");
+    expect(end.toISOString()).toBe("2023-12-31T23:59:59.999Z");
+  });
+});
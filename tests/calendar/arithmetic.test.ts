@@ -0,0 +1,170 @@
+import {
+  diff,
+  fromEpochMilliseconds,
+  fromWeekDate,
+  getCanonicalTimeZone,
+  getOffsetMinutes,
+  isValidDateTime,
+  minus,
+  plus,
+  toEpochMilliseconds,
+  toWeekDate
+} from "../../src/calendar";
+import { PreciseDateOptions } from "../../src/fuzzyDate";
+
+describe("calendar", () => {
+  const options = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0, millisecond = 0): PreciseDateOptions =>
+    ({ year, month, day, hour, minute, second, millisecond });
+
+  const fromDate = (milliseconds: number): PreciseDateOptions => {
+    const date = new Date(milliseconds);
+    return options(
+      date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+      date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+    );
+  };
+
+  describe("proleptic Gregorian calendar", () => {
+    test("should agree with Date from 2000 BC to 3000 AD", () => {
+      for (let milliseconds = -125e12; milliseconds < 33e12; milliseconds += 9876543210987) {
+        expect(fromEpochMilliseconds(milliseconds)).toEqual(fromDate(milliseconds));
+        expect(toEpochMilliseconds(fromDate(milliseconds))).toBe(milliseconds);
+      }
+    });
+
+    test.each([
+      { year: 2024, expected: true },
+      { year: 2023, expected: false },
+      { year: 2000, expected: true },
+      { year: 1900, expected: false },
+      { year: 0, expected: true },
+      { year: -4, expected: true },
+      { year: -100, expected: false }
+    ])("should tell whether $year has a leap day", ({ year, expected }) => {
+      expect(isValidDateTime(options(year, 2, 29))).toBe(expected);
+    });
+
+    test.each([
+      options(2023, 4, 31),
+      options(2023, 13, 1),
+      options(2023, 1, 0),
+      options(2023, 1, 1, 24),
+      options(2023, 1, 1, 0, 60),
+      options(2023, 1, 1, 0, 0, 60),
+      options(2023, 1, 1, 0, 0, 0, 1000),
+      options(2023.5, 1, 1),
+      options(NaN, 1, 1),
+      options(275761, 1, 1)
+    ])("should reject %o", value => {
+      expect(isValidDateTime(value)).toBe(false);
+    });
+
+    test("should accept the last day within reach", () => {
+      expect(isValidDateTime(options(275760, 9, 13))).toBe(true);
+      expect(isValidDateTime(options(-271821, 4, 20))).toBe(true);
+    });
+  });
+
+  describe("plus and minus", () => {
+    test.each([
+      { start: options(2023, 1, 31), duration: { months: 1 }, expected: options(2023, 2, 28) },
+      { start: options(2024, 2, 29), duration: { years: 1 }, expected: options(2025, 2, 28) },
+      { start: options(2023, 1, 31), duration: { months: 1, days: 1 }, expected: options(2023, 3, 1) },
+      { start: options(2023, 12, 31, 23, 59, 59, 999), duration: { milliseconds: 1 }, expected: options(2024, 1, 1) },
+      { start: options(2023, 5, 15), duration: { weeks: 3, hours: 36 }, expected: options(2023, 6, 6, 12) },
+      { start: options(1, 1, 1), duration: { days: -1 }, expected: options(0, 12, 31) },
+      { start: options(2023, 3, 1), duration: { months: -14 }, expected: options(2022, 1, 1) }
+    ])("should move $start by $duration", ({ start, duration, expected }) => {
+      expect(plus(start, duration)).toEqual(expected);
+      expect(minus(start, Object.fromEntries(Object.entries(duration).map(([unit, value]) => [unit, -value])))).toEqual(expected);
+    });
+  });
+
+  describe("week dates", () => {
+    test.each([
+      { date: [2023, 1, 1], week: [2022, 52, 7] },
+      { date: [2020, 12, 31], week: [2020, 53, 4] },
+      { date: [2021, 1, 4], week: [2021, 1, 1] },
+      { date: [2008, 12, 29], week: [2009, 1, 1] },
+      { date: [-1, 1, 1], week: [-2, 53, 5] }
+    ])("should convert $date to week $week and back", ({ date: [year, month, day], week: [weekYear, week, weekday] }) => {
+      expect(toWeekDate(year, month, day)).toEqual({ weekYear, week, weekday });
+      expect(fromWeekDate(weekYear, week, weekday)).toEqual({ year, month, day });
+    });
+  });
+
+  describe("zones", () => {
+    test("should read fixed offsets without the runtime", () => {
+      expect(getOffsetMinutes(0, '+05:30')).toBe(330);
+      expect(getOffsetMinutes(0, '-03:00')).toBe(-180);
+      expect(getOffsetMinutes(0, 'UTC')).toBe(0);
+      expect(toEpochMilliseconds(options(1970, 1, 1, 5, 30), '+05:30')).toBe(0);
+    });
+
+    test("should tell IANA zones apart from unknown names", () => {
+      // Runtimes resolve links to either of their names, such as "Asia/Calcutta" for "Asia/Kolkata"
+      expect(getCanonicalTimeZone('Asia/Kolkata')).toBe(getCanonicalTimeZone('Asia/Calcutta'));
+      expect(getCanonicalTimeZone('Asia/Kolkata')).toMatch(/^Asia\/(Kolkata|Calcutta)$/);
+      expect(getCanonicalTimeZone('Nowhere/Land')).toBeUndefined();
+    });
+
+    test.each([
+      { zone: 'europe/paris', expected: 'Europe/Paris' },
+      { zone: 'US/Eastern', expected: 'America/New_York' },
+      { zone: 'utc', expected: 'UTC' },
+      { zone: 'Etc/UTC', expected: 'UTC' },
+      { zone: 'Etc/GMT', expected: 'UTC' },
+      { zone: 'Zulu', expected: 'UTC' },
+      { zone: 'Etc/GMT+5', expected: 'Etc/GMT+5' }
+    ])("should give $expected as the canonical name of $zone", ({ zone, expected }) => {
+      expect(getCanonicalTimeZone(zone)).toBe(expected);
+    });
+
+    test("should read offsets before the common era", () => {
+      const milliseconds = toEpochMilliseconds(options(-500, 6, 15, 12), 'Asia/Tokyo');
+      expect(fromEpochMilliseconds(milliseconds, 'Asia/Tokyo')).toEqual(options(-500, 6, 15, 12));
+    });
+
+    test("should resolve repeated times to their first occurrence and move skipped times forward", () => {
+      expect(getOffsetMinutes(toEpochMilliseconds(options(2023, 11, 5, 1, 30), 'America/New_York'), 'America/New_York')).toBe(-240);
+      expect(fromEpochMilliseconds(toEpochMilliseconds(options(2023, 3, 12, 2, 30), 'America/New_York'), 'America/New_York'))
+        .toEqual(options(2023, 3, 12, 3, 30));
+    });
+
+    test("should resolve repeated times to the occurrence at a preferred offset", () => {
+      const local = options(2023, 11, 5, 1, 30);
+      expect(toEpochMilliseconds(local, 'America/New_York', -300) - toEpochMilliseconds(local, 'America/New_York', -240)).toBe(3600000);
+      expect(toEpochMilliseconds(local, 'America/New_York', -60)).toBe(toEpochMilliseconds(local, 'America/New_York'));
+    });
+
+    test("should keep reading offsets once many moments have been read", () => {
+      for (let hour = 0; hour < 5000; hour++) {
+        expect(getOffsetMinutes(hour * 3600000, 'Asia/Tokyo')).toBe(540);
+      }
+    });
+
+    test("should carry invalid moments through as NaN", () => {
+      expect(getOffsetMinutes(NaN, 'Europe/Paris')).toBeNaN();
+      expect(toEpochMilliseconds(options(NaN, 1, 1), 'Europe/Paris')).toBeNaN();
+      expect(fromEpochMilliseconds(NaN, 'Europe/Paris').year).toBeNaN();
+    });
+  });
+
+  describe("diff", () => {
+    test("should count calendar units on the wall clock", () => {
+      const from = toEpochMilliseconds(options(2023, 1, 31, 22), 'Europe/Paris');
+      const to = toEpochMilliseconds(options(2024, 3, 31, 21, 15, 30, 250), 'Europe/Paris');
+      expect(diff(from, to, 'Europe/Paris')).toEqual({
+        years: 1, months: 1, days: 30, hours: 22, minutes: 15, seconds: 30, milliseconds: 250
+      });
+    });
+
+    test("should negate every unit without negative zeros", () => {
+      const from = toEpochMilliseconds(options(2023, 5, 15));
+      const to = toEpochMilliseconds(options(2023, 3, 14, 12));
+      const duration = diff(from, to);
+      expect(duration).toEqual({ years: 0, months: -2, days: 0, hours: -12, minutes: 0, seconds: 0, milliseconds: 0 });
+      expect(Object.is(duration.years, 0)).toBe(true);
+    });
+  });
+});
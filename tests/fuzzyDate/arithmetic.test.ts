@@ -0,0 +1,72 @@
+import { FuzzyDate, FuzzyDateCalendarError, FuzzyDatePrecisionError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate arithmetic", () => {
+  describe("plus and minus", () => {
+    test.each([
+      { date: "2023-12", duration: { months: 1 }, expected: "2024-01" },
+      { date: "1990", duration: { years: -5 }, expected: "1985" },
+      { date: "2023-05-15", duration: { weeks: 2, days: 3 }, expected: "2023-06-01" },
+      { date: "2023-05-15T10:30", duration: { hours: 20, minutes: 45 }, expected: "2023-05-16T07:15" },
+      { date: "2023-05-15T10:30:45.500", duration: { milliseconds: 600 }, expected: "2023-05-15T10:30:46.100" },
+      { date: "2022-35", duration: { months: 3 }, expected: "2022-36" },
+      { date: "2022-36", duration: { years: 1, months: 6 }, expected: "2024-34" },
+      { date: "2021-41", duration: { months: 6 }, expected: "2022-40" },
+      { date: "198X", duration: { years: 20 }, expected: "200X" },
+      { date: "18XX", duration: { years: 100 }, expected: "19XX" },
+      { date: "-4X", duration: { years: 10 }, expected: "-3X" },
+      { date: "2023-W52", duration: { weeks: 1 }, expected: "2024-W01" },
+      { date: "2020-W53-7", duration: { days: 1 }, expected: "2021-W01-1" },
+      { date: "-43-03-15", duration: { years: 1 }, expected: "-42-03-15" }
+    ])("should move $date by $duration to $expected", ({ date, duration, expected }) => {
+      expect(FuzzyDate.fromString(date).plus(duration).toString()).toBe(expected);
+      expect(FuzzyDate.fromString(expected).minus(duration).toString()).toBe(date);
+    });
+
+    test("should clamp to the end of shorter months", () => {
+      expect(FuzzyDate.fromString("2023-01-31").plus({ months: 1 }).toString()).toBe("2023-02-28");
+      expect(FuzzyDate.fromString("2024-03-31").minus({ months: 1 }).toString()).toBe("2024-02-29");
+      expect(FuzzyDate.fromString("2024-02-29").plus({ years: 1 }).toString()).toBe("2025-02-28");
+    });
+
+    test("should leave the original date unchanged", () => {
+      const date = FuzzyDate.fromString("2023-12");
+      date.plus({ months: 1 });
+      expect(date.toString()).toBe("2023-12");
+    });
+
+    test("should keep the qualifiers, tolerance and zone", () => {
+      expect(FuzzyDate.fromString("1850?±P5Y").plus({ years: 10 }).toString()).toBe("1860?±P5Y");
+      expect(FuzzyDate.fromString("2023-05-15T10:30+02:00[Europe/Paris]").plus({ days: 180 }).toString())
+        .toBe("2023-11-11T10:30+01:00[Europe/Paris]");
+    });
+  });
+
+  describe("precision policy", () => {
+    test.each([
+      { date: "2023", duration: { months: 1 } },
+      { date: "2023-05", duration: { days: 10 } },
+      { date: "2023-05", duration: { weeks: 1 } },
+      { date: "2023-05-15", duration: { hours: 12 } },
+      { date: "2022-35", duration: { months: 1 } },
+      { date: "198X", duration: { years: 5 } },
+      { date: "2023-W12", duration: { days: 1 } },
+      { date: "2023-W12", duration: { years: 1 } },
+      { date: "2023-W12-3", duration: { months: 1 } },
+      { date: "2023", duration: { years: 1.5 } }
+    ])("should reject $duration on $date", ({ date, duration }) => {
+      expect(() => FuzzyDate.fromString(date).plus(duration)).toThrow(FuzzyDatePrecisionError);
+      expect(() => FuzzyDate.fromString(date).minus(duration)).toThrow(FuzzyDatePrecisionError);
+    });
+
+    test("should accept zero units finer than the precision", () => {
+      expect(FuzzyDate.fromString("2023").plus({ years: 1, days: 0 }).toString()).toBe("2024");
+    });
+  });
+
+  describe("calendar checks", () => {
+    test("should reject times skipped by a DST transition", () => {
+      const date = FuzzyDate.fromString("2023-03-25T02:30+01:00[Europe/Paris]");
+      expect(() => date.plus({ days: 1 })).toThrow(FuzzyDateCalendarError);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { FuzzyDate, Ternary } from "../../src/fuzzyDate";
+
+describe("FuzzyDate comparison", () => {
+  const cases: Array<{
+    description: string;
+    a: string;
+    b: string;
+    isBefore: Ternary;
+    isAfter: Ternary;
+    isSame: Ternary;
+    overlaps: Ternary;
+  }> = [
+    {
+      description: "disjoint years",
+      a: "2022", b: "2023",
+      isBefore: 'yes', isAfter: 'no', isSame: 'no', overlaps: 'no'
+    },
+    {
+      description: "a year and a month inside it",
+      a: "2023", b: "2023-05",
+      isBefore: 'maybe', isAfter: 'maybe', isSame: 'maybe', overlaps: 'yes'
+    },
+    {
+      description: "a year and its first month",
+      a: "2023", b: "2023-01",
+      isBefore: 'maybe', isAfter: 'maybe', isSame: 'maybe', overlaps: 'yes'
+    },
+    {
+      description: "the same month",
+      a: "2023-05", b: "2023-05",
+      isBefore: 'maybe', isAfter: 'maybe', isSame: 'maybe', overlaps: 'yes'
+    },
+    {
+      description: "the same millisecond",
+      a: "2023-05-15T10:30:45.500", b: "2023-05-15T10:30:45.500",
+      isBefore: 'no', isAfter: 'no', isSame: 'yes', overlaps: 'yes'
+    },
+    {
+      description: "adjacent milliseconds",
+      a: "2023-05-15T10:30:45.500", b: "2023-05-15T10:30:45.501",
+      isBefore: 'yes', isAfter: 'no', isSame: 'no', overlaps: 'no'
+    },
+    {
+      description: "a month and the last millisecond of it",
+      a: "2023-05", b: "2023-05-31T23:59:59.999",
+      isBefore: 'maybe', isAfter: 'no', isSame: 'maybe', overlaps: 'yes'
+    },
+    {
+      description: "a month and the first millisecond of it",
+      a: "2023-05", b: "2023-05-01T00:00:00.000",
+      isBefore: 'no', isAfter: 'maybe', isSame: 'maybe', overlaps: 'yes'
+    },
+    {
+      description: "a day and the next day",
+      a: "2023-12-31", b: "2024-01-01",
+      isBefore: 'yes', isAfter: 'no', isSame: 'no', overlaps: 'no'
+    },
+    {
+      description: "BC years",
+      a: "-500", b: "-499-01",
+      isBefore: 'yes', isAfter: 'no', isSame: 'no', overlaps: 'no'
+    },
+    {
+      description: "extreme years",
+      a: "-100000", b: "99999",
+      isBefore: 'yes', isAfter: 'no', isSame: 'no', overlaps: 'no'
+    }
+  ];
+
+  test.each(cases)("should compare $description", ({ a, b, isBefore, isAfter, isSame, overlaps }) => {
+    const first = FuzzyDate.fromString(a);
+    const second = FuzzyDate.fromString(b);
+
+    expect(first.isBefore(second)).toBe(isBefore);
+    expect(first.isAfter(second)).toBe(isAfter);
+    expect(first.isSame(second)).toBe(isSame);
+    expect(first.overlaps(second)).toBe(overlaps);
+  });
+
+  test.each(cases)("should answer symmetrically for $description", ({ a, b, isBefore, isAfter, isSame, overlaps }) => {
+    const first = FuzzyDate.fromString(a);
+    const second = FuzzyDate.fromString(b);
+
+    expect(second.isAfter(first)).toBe(isBefore);
+    expect(second.isBefore(first)).toBe(isAfter);
+    expect(second.isSame(first)).toBe(isSame);
+    expect(second.overlaps(first)).toBe(overlaps);
+  });
+
+  test("should handle two-digit years without shifting them to the 1900s", () => {
+    const year50 = new FuzzyDate({ year: 50 });
+    const year1950 = new FuzzyDate({ year: 1950 });
+    expect(year50.isBefore(year1950)).toBe('yes');
+  });
+});
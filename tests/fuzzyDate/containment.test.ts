@@ -0,0 +1,91 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDate containment", () => {
+  const date = (value: string) => FuzzyDate.fromString(value);
+
+  describe("contains", () => {
+    test.each([
+      { a: "2023-05", b: "2023-05-15", expected: true },
+      { a: "2023-05", b: "2023-05", expected: true },
+      { a: "2023-05", b: "2023-05-31T23:59:59.999", expected: true },
+      { a: "2023-05-15", b: "2023-05", expected: false },
+      { a: "2023-05", b: "2023-W22", expected: false },
+      { a: "2023-34", b: "2023-05-15", expected: true },
+      { a: "198X", b: "1985-07", expected: true },
+      { a: "-4X", b: "-43", expected: true },
+      { a: "2023", b: "2024-01-01", expected: false }
+    ])("should answer $expected for $a containing $b", ({ a, b, expected }) => {
+      expect(date(a).contains(date(b))).toBe(expected);
+    });
+
+    test("should take the zones into account", () => {
+      expect(date("2023-05-15").contains(date("2023-05-15T23Z"))).toBe(true);
+      expect(date("2023-05-15").contains(date("2023-05-15T23-02:00"))).toBe(false);
+    });
+
+    test("should take the tolerance into account", () => {
+      expect(date("1850±P5Y").contains(date("1853"))).toBe(true);
+      expect(date("1853").contains(date("1850±P5Y"))).toBe(false);
+    });
+  });
+
+  describe("intersect", () => {
+    test("should return the finer date when one contains the other", () => {
+      const day = date("2023-05-15");
+      expect(date("2023-05").intersect(day)).toBe(day);
+      expect(day.intersect(date("2023"))).toBe(day);
+    });
+
+    test("should return undefined for disjoint dates", () => {
+      expect(date("2023-05").intersect(date("2023-06-01"))).toBeUndefined();
+      expect(date("2023").intersect(date("2024"))).toBeUndefined();
+    });
+
+    test.each([
+      { a: "2023-W09", b: "2023-03", expected: "2023-03-01/2023-03-05" },
+      { a: "2023-05", b: "2023-W22", expected: "2023-05-29/2023-05-31" },
+      { a: "2022-W52", b: "2023", expected: "2023-01-01/2023-01-01" },
+      { a: "1850±P5Y", b: "185X", expected: "1850/1855" },
+      { a: "2023-05-15", b: "2023-05-15T05+05:30", expected: "2023-05-15T00/2023-05-15T00:29" }
+    ])("should return the overlap of $a and $b as $expected", ({ a, b, expected }) => {
+      const overlap = date(a).intersect(date(b));
+      expect(overlap).toBeInstanceOf(FuzzyDateRange);
+      expect(overlap?.toString()).toBe(expected);
+    });
+
+    test("should cover exactly the shared moments", () => {
+      const a = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Europe/Paris' });
+      const b = date("2023-05-14");
+      const overlap = a.intersect(b) as FuzzyDateRange;
+      expect(overlap.start?.toEpochRange().earliest).toBe(a.toEpochRange().earliest);
+      expect(overlap.end?.toEpochRange().latest).toBe(b.toEpochRange().latest);
+    });
+  });
+
+  describe("commonAncestor", () => {
+    test.each([
+      { a: "2023-01-05", b: "2023-11", expected: "2023" },
+      { a: "2023-05-15", b: "2023-05-20", expected: "2023-05" },
+      { a: "2023-05-15T10:30", b: "2023-05-15T10:45", expected: "2023-05-15T10" },
+      { a: "2023-05-15", b: "2023-05-15", expected: "2023-05-15" },
+      { a: "2023-05", b: "2023-05-15", expected: "2023-05" },
+      { a: "2023-05-15", b: "2023-05", expected: "2023-05" },
+      { a: "1985", b: "1999-12-31", expected: "19XX" },
+      { a: "2023-34", b: "2023-12-24", expected: "2023" },
+      { a: "2023-W20-3", b: "2023-W20-5", expected: "2023-W20" },
+      { a: "2023-W20", b: "2023-08", expected: "2023" },
+      { a: "2023-W01", b: "2022-12-31", expected: "202X" },
+      { a: "-5", b: "-3", expected: "-0X" },
+      { a: "-5", b: "-15", expected: "-0XX" },
+      { a: "-1-06-15", b: "-950", expected: "-0XXX" }
+    ])("should find the common ancestor of $a and $b", ({ a, b, expected }) => {
+      expect(date(a).commonAncestor(date(b))?.toString()).toBe(expected);
+    });
+
+    test("should return undefined when no millennium contains both", () => {
+      expect(date("1999").commonAncestor(date("2001"))).toBeUndefined();
+      expect(date("-1").commonAncestor(date("0"))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { FuzzyDate, FuzzyDateCalendarError, FuzzyDateZoneError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate native conversion", () => {
+  // 2023-05-15T10:30:45.500Z
+  const date = new Date(Date.UTC(2023, 4, 15, 10, 30, 45, 500));
+
+  describe("fromDate", () => {
+    test.each([
+      { precision: 'year' as const, expected: "2023" },
+      { precision: 'month' as const, expected: "2023-05" },
+      { precision: 'day' as const, expected: "2023-05-15" },
+      { precision: 'hour' as const, expected: "2023-05-15T10Z" },
+      { precision: 'minute' as const, expected: "2023-05-15T10:30Z" },
+      { precision: 'second' as const, expected: "2023-05-15T10:30:45Z" },
+      { precision: 'millisecond' as const, expected: "2023-05-15T10:30:45.500Z" }
+    ])("should keep the fields down to $precision precision", ({ precision, expected }) => {
+      const fuzzyDate = FuzzyDate.fromDate(date, precision, { zone: 'UTC' });
+      expect(fuzzyDate.getPrecision()).toBe(precision);
+      expect(fuzzyDate.toString()).toBe(expected);
+    });
+
+    test("should read the fields from the wall clock of the zone", () => {
+      expect(FuzzyDate.fromDate(date, 'minute', { zone: 'Asia/Tokyo' }).toString())
+        .toBe("2023-05-15T19:30+09:00[Asia/Tokyo]");
+      expect(FuzzyDate.fromDate(date, 'hour', { zone: '-05:00' }).toString())
+        .toBe("2023-05-15T05-05:00");
+      expect(FuzzyDate.fromDate(date, 'day', { zone: 'Pacific/Kiritimati' }).day).toBe(16);
+    });
+
+    test("should read UTC fields into a floating date", () => {
+      const fuzzyDate = FuzzyDate.fromDate(date, 'hour', { zone: 'floating' });
+      expect(fuzzyDate.zone).toBeUndefined();
+      expect(fuzzyDate.toString()).toBe("2023-05-15T10");
+    });
+
+    test("should read UTC fields into a floating date by default, whatever the zone of the system", () => {
+      expect(Intl.DateTimeFormat().resolvedOptions().timeZone).not.toBe('UTC');
+
+      const fuzzyDate = FuzzyDate.fromDate(date, 'millisecond');
+      expect(fuzzyDate.zone).toBeUndefined();
+      expect(fuzzyDate.hour).toBe(date.getUTCHours());
+      expect(fuzzyDate.toDateRange().start.getTime()).toBe(date.getTime());
+    });
+
+    test("should equal the parsed date by default", () => {
+      const fuzzyDate = FuzzyDate.fromDate(new Date(Date.UTC(2023, 6, 1)), 'year');
+      expect(fuzzyDate.hashKey()).toBe("2023");
+      expect(fuzzyDate.equals(FuzzyDate.fromString("2023"))).toBe(true);
+    });
+
+    test("should handle BC dates", () => {
+      const bc = new Date(0);
+      bc.setUTCFullYear(-500, 2, 15);
+      expect(FuzzyDate.fromDate(bc, 'day', { zone: 'UTC' }).toString()).toBe("-500-03-15");
+    });
+
+    test("should throw FuzzyDateZoneError for unknown zones", () => {
+      expect(() => FuzzyDate.fromDate(date, 'day', { zone: 'Mars/Olympus' })).toThrow(FuzzyDateZoneError);
+    });
+
+    test("should throw FuzzyDateCalendarError for invalid Dates", () => {
+      expect(() => FuzzyDate.fromDate(new Date('invalid'), 'day', { zone: 'UTC' })).toThrow(FuzzyDateCalendarError);
+    });
+  });
+
+  describe("toDateRange", () => {
+    test("should return the earliest and latest moments as Dates", () => {
+      const { start, end } = FuzzyDate.fromString("2023-05").toDateRange();
+      expect(start.toISOString()).toBe("2023-05-01T00:00:00.000Z");
+      expect(end.toISOString()).toBe("2023-05-31T23:59:59.999Z");
+    });
+
+    test("should respect the zone", () => {
+      const { start, end } = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Asia/Tokyo' }).toDateRange();
+      expect(start.toISOString()).toBe("2023-05-14T15:00:00.000Z");
+      expect(end.toISOString()).toBe("2023-05-15T14:59:59.999Z");
+    });
+
+    test("should round-trip Dates at millisecond precision", () => {
+      const { start, end } = FuzzyDate.fromDate(date, 'millisecond', { zone: 'Europe/Paris' }).toDateRange();
+      expect(start.getTime()).toBe(date.getTime());
+      expect(end.getTime()).toBe(date.getTime());
+    });
+  });
+
+  describe("toEpochRange", () => {
+    test("should return the earliest and latest milliseconds since the epoch", () => {
+      expect(FuzzyDate.fromString("1970").toEpochRange()).toEqual({
+        earliest: 0,
+        latest: 365 * 24 * 60 * 60 * 1000 - 1
+      });
+    });
+
+    test("should cover the supported range", () => {
+      expect(FuzzyDate.fromString("-100000-01-01T00:00:00.000").toEpochRange().earliest)
+        .toBe(new Date("-100000-01-01T00:00:00.000Z").getTime());
+      expect(FuzzyDate.fromString("99999-12-31T23:59:59.999").toEpochRange().latest)
+        .toBe(new Date("+099999-12-31T23:59:59.999Z").getTime());
+    });
+
+    test("should respect fixed offsets", () => {
+      expect(FuzzyDate.fromString("1970-01-01T05:30+05:30").toEpochRange()).toEqual({
+        earliest: 0,
+        latest: 60 * 1000 - 1
+      });
+    });
+  });
+});
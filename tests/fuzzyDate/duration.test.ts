@@ -0,0 +1,89 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+
+describe("FuzzyDate.durationBetween", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  test("should return the shortest and longest time between disjoint months", () => {
+    const { min, max } = FuzzyDate.durationBetween(
+      FuzzyDate.fromString("2023-01"),
+      FuzzyDate.fromString("2023-03")
+    );
+
+    // From January 31st 23:59:59.999 to March 1st 00:00:00.000
+    expect(min.milliseconds).toBe(28 * DAY + 1);
+    expect(min.calendar).toEqual({
+      years: 0, months: 1, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 1
+    });
+
+    // From January 1st 00:00:00.000 to March 31st 23:59:59.999
+    expect(max.milliseconds).toBe(90 * DAY - 1);
+    expect(max.calendar).toEqual({
+      years: 0, months: 2, days: 30, hours: 23, minutes: 59, seconds: 59, milliseconds: 999
+    });
+  });
+
+  test("should return exact durations between milliseconds", () => {
+    const { min, max } = FuzzyDate.durationBetween(
+      FuzzyDate.fromString("2020-02-28T10:00:00.000"),
+      FuzzyDate.fromString("2021-03-01T12:30:15.250")
+    );
+    const expected = {
+      milliseconds: 367 * DAY + 2.5 * 60 * 60 * 1000 + 15250,
+      calendar: { years: 1, months: 0, days: 1, hours: 2, minutes: 30, seconds: 15, milliseconds: 250 }
+    };
+
+    expect(min).toEqual(expected);
+    expect(max).toEqual(expected);
+  });
+
+  test("should return a negative minimum when the ranges overlap", () => {
+    const { min, max } = FuzzyDate.durationBetween(
+      FuzzyDate.fromString("2023"),
+      FuzzyDate.fromString("2023-05")
+    );
+
+    // From December 31st 2023 23:59:59.999 back to May 1st 2023 00:00:00.000
+    expect(min.milliseconds).toBe(-(245 * DAY - 1));
+    expect(min.calendar).toEqual({
+      years: 0, months: -7, days: -30, hours: -23, minutes: -59, seconds: -59, milliseconds: -999
+    });
+    expect(max.milliseconds).toBe(151 * DAY - 1);
+  });
+
+  test("should return a zero minimum when a range ends at the other single moment", () => {
+    const { min } = FuzzyDate.durationBetween(
+      FuzzyDate.fromString("2023-05-15T10:30:45"),
+      FuzzyDate.fromString("2023-05-15T10:30:45.999")
+    );
+
+    expect(min.milliseconds).toBe(0);
+    expect(min.calendar).toEqual({
+      years: 0, months: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0
+    });
+  });
+
+  test("should return negative durations when the second date is before the first", () => {
+    const { min, max } = FuzzyDate.durationBetween(
+      FuzzyDate.fromString("2024"),
+      FuzzyDate.fromString("2023")
+    );
+
+    expect(min.milliseconds).toBeLessThan(0);
+    expect(max.milliseconds).toBe(-1);
+    expect(max.calendar.milliseconds).toBe(-1);
+  });
+
+  test("should handle BC years", () => {
+    const { min, max } = FuzzyDate.durationBetween(
+      FuzzyDate.fromString("-44-03-15"),
+      FuzzyDate.fromString("-43-03-15")
+    );
+
+    expect(min.calendar).toEqual({
+      years: 0, months: 11, days: 27, hours: 0, minutes: 0, seconds: 0, milliseconds: 1
+    });
+    expect(max.calendar).toEqual({
+      years: 1, months: 0, days: 0, hours: 23, minutes: 59, seconds: 59, milliseconds: 999
+    });
+  });
+});
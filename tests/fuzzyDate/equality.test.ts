@@ -0,0 +1,105 @@
+import { FuzzyDate, FuzzyDateCalendarError, FuzzyDateHierarchyError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate value semantics", () => {
+  const date = (value: string) => FuzzyDate.fromString(value);
+
+  describe("equals", () => {
+    test.each([
+      { a: new FuzzyDate({ year: 2023 }), b: date("2023") },
+      { a: new FuzzyDate({ year: 2004, month: 6, day: 11, qualifiers: { year: 'uncertain', month: 'uncertain', day: 'uncertain' } }), b: date("?2004-?06-?11") },
+      { a: new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10, zone: '+00:00' }), b: date("2023-05-15T10Z") },
+      { a: new FuzzyDate({ year: 1850, tolerance: { plusMinus: { years: 5, months: 0 } } }), b: date("1850±P5Y") },
+      { a: new FuzzyDate({ year: 1980, unspecifiedYearDigits: 1 }), b: date("198X") }
+    ])("should find $b equal to its options", ({ a, b }) => {
+      expect(a.equals(b)).toBe(true);
+      expect(b.equals(a)).toBe(true);
+      expect(a.hashKey()).toBe(b.hashKey());
+    });
+
+    test.each([
+      { a: "2023", b: "2023-01" },
+      { a: "2023-05", b: "2023-W20" },
+      { a: "1850", b: "1850?" },
+      { a: "1850", b: "1850±P5Y" },
+      { a: "1980", b: "198X" },
+      { a: "2023-05-15T10", b: "2023-05-15T10Z" },
+      { a: "2023-05-15T10+02:00", b: "2023-05-15T10+02:00[Europe/Paris]" }
+    ])("should tell $a and $b apart", ({ a, b }) => {
+      expect(date(a).equals(date(b))).toBe(false);
+      expect(date(a).hashKey()).not.toBe(date(b).hashKey());
+    });
+
+    test("should tell zones apart when the serialization leaves them out", () => {
+      const parisDay = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Europe/Paris' });
+      expect(parisDay.toString()).toBe("2023-05-15");
+      expect(parisDay.hashKey()).toBe("2023-05-15[Europe/Paris]");
+      expect(parisDay.equals(date("2023-05-15"))).toBe(false);
+      expect(parisDay.equals(new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Europe/Paris' }))).toBe(true);
+    });
+
+    test("should serve as a key for sets and maps", () => {
+      const keys = new Set([date("2023"), new FuzzyDate({ year: 2023 }), date("2023-05")].map(value => value.hashKey()));
+      expect(keys.size).toBe(2);
+
+      const events = new Map([[date("1850±P5Y").hashKey(), "founding"]]);
+      expect(events.get(new FuzzyDate({ year: 1850, tolerance: { plusMinus: { years: 5 } } }).hashKey())).toBe("founding");
+    });
+  });
+
+  describe("immutability", () => {
+    test("should freeze the date, its qualifiers and its tolerance", () => {
+      const circa = date("1920-03~±P1M");
+      expect(Object.isFrozen(circa)).toBe(true);
+      expect(Object.isFrozen(circa.qualifiers)).toBe(true);
+      expect(Object.isFrozen(circa.tolerance)).toBe(true);
+      expect(Object.isFrozen(circa.tolerance?.plusMinus)).toBe(true);
+    });
+
+    test("should reject assignments", () => {
+      const year = date("2023") as { year: number };
+      expect(() => { year.year = 2024; }).toThrow(TypeError);
+      expect(year.year).toBe(2023);
+    });
+  });
+
+  describe("with", () => {
+    test.each([
+      { date: "2023-05-15", options: { day: 20 }, expected: "2023-05-20" },
+      { date: "2023-05-15", options: { year: 2024, month: 2, day: 29 }, expected: "2024-02-29" },
+      { date: "2023-05", options: { day: 1, hour: 9 }, expected: "2023-05-01T09" },
+      { date: "2023-05-15T10:30", options: { month: undefined }, expected: "2023" },
+      { date: "2023-05-15T10:30:45.500", options: { minute: undefined }, expected: "2023-05-15T10" },
+      { date: "2023-W20-3T10", options: { week: undefined }, expected: "2023" },
+      { date: "2023-W20-3T10", options: { weekday: undefined }, expected: "2023-W20" },
+      { date: "2023-05-15", options: { month: undefined, quarter: 2 }, expected: "2023-34" },
+      { date: "2004-06-~11", options: { day: undefined }, expected: "2004-06" },
+      { date: "2004-?06-11", options: { day: 12 }, expected: "2004-?06-12" },
+      { date: "2004-?06-11", options: { qualifiers: { year: 'approximate' as const } }, expected: "~2004-06-11" },
+      { date: "1850±P5Y", options: { year: 1860 }, expected: "1860±P5Y" },
+      { date: "1850±P5Y", options: { tolerance: undefined }, expected: "1850" },
+      { date: "2023-05-15T10:30+02:00[Europe/Paris]", options: { month: 12 }, expected: "2023-12-15T10:30+01:00[Europe/Paris]" },
+      { date: "2023-05-15T10:30+02:00[Europe/Paris]", options: { zone: 'floating' }, expected: "2023-05-15T10:30" }
+    ])("should update $date with $options to $expected", ({ date: value, options, expected }) => {
+      expect(date(value).with(options).toString()).toBe(expected);
+    });
+
+    test("should leave the original date unchanged", () => {
+      const original = date("2023-05-15");
+      original.with({ month: undefined });
+      expect(original.toString()).toBe("2023-05-15");
+    });
+
+    test.each([
+      { date: "2023-05", options: { quarter: 2 } },
+      { date: "2023", options: { day: 1 } },
+      { date: "2004-06-11", options: { month: undefined, qualifiers: { day: 'uncertain' as const } } }
+    ])("should reject $options on $date", ({ date: value, options }) => {
+      expect(() => date(value).with(options)).toThrow(FuzzyDateHierarchyError);
+    });
+
+    test("should reject invalid calendar dates", () => {
+      expect(() => date("2023-04-15").with({ day: 31 })).toThrow(FuzzyDateCalendarError);
+      expect(() => date("2023-05-15").with({ year: undefined })).toThrow(FuzzyDateCalendarError);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+
+describe("FuzzyDate localized formatting", () => {
+  // ICU separates times from day periods with narrow no-break spaces
+  const format = (date: FuzzyDate, options: Parameters<FuzzyDate['format']>[0]) =>
+    date.format(options).replace(/\s/g, ' ');
+
+  describe("precision", () => {
+    test.each([
+      { options: { year: 2023 }, expected: "2023" },
+      { options: { year: 2023, month: 3 }, expected: "Mar 2023" },
+      { options: { year: 2023, month: 3, day: 22 }, expected: "Mar 22, 2023" },
+      { options: { year: 2023, month: 3, day: 22, hour: 10 }, expected: "Mar 22, 2023, 10 AM" },
+      { options: { year: 2023, month: 3, day: 22, hour: 10, minute: 30 }, expected: "Mar 22, 2023, 10:30 AM" },
+      { options: { year: 2023, month: 3, day: 22, hour: 10, minute: 30, second: 45 }, expected: "Mar 22, 2023, 10:30:45 AM" },
+      { options: { year: 2023, month: 3, day: 22, hour: 10, minute: 30, second: 45, millisecond: 500 }, expected: "Mar 22, 2023, 10:30:45.500 AM" }
+    ])("should only render the fields of $expected", ({ options, expected }) => {
+      expect(format(new FuzzyDate(options), { locale: 'en-US' })).toBe(expected);
+    });
+
+    test("should render a 24-hour clock on request", () => {
+      const date = new FuzzyDate({ year: 2023, month: 3, day: 22, hour: 10, minute: 30 });
+      expect(format(date, { locale: 'en-US', hour12: false })).toBe("Mar 22, 2023, 10:30");
+    });
+  });
+
+  describe("styles", () => {
+    const date = new FuzzyDate({ year: 2023, month: 3, day: 22 });
+
+    test.each([
+      { style: 'short' as const, expected: "3/22/2023" },
+      { style: 'medium' as const, expected: "Mar 22, 2023" },
+      { style: 'long' as const, expected: "March 22, 2023" },
+      { style: 'full' as const, expected: "Wednesday, March 22, 2023" }
+    ])("should render the $style style", ({ style, expected }) => {
+      expect(format(date, { locale: 'en-US', style })).toBe(expected);
+    });
+
+    test("should default to the locale of the runtime", () => {
+      const locale = new Intl.DateTimeFormat().resolvedOptions().locale;
+      expect(date.format()).toBe(date.format({ locale, style: 'medium' }));
+    });
+
+    test("should default to the medium style", () => {
+      expect(format(date, { locale: 'en-US' })).toBe(format(date, { locale: 'en-US', style: 'medium' }));
+    });
+  });
+
+  describe("locales", () => {
+    test.each([
+      { locale: 'en-GB', options: { year: 2023, month: 3, day: 22, hour: 10, minute: 30 }, expected: "22 March 2023 at 10:30" },
+      { locale: 'zh-CN', options: { year: 2023, month: 3 }, expected: "2023年3月" },
+      { locale: 'zh-CN', options: { year: 2023, month: 3, day: 22 }, expected: "2023年3月22日" },
+      { locale: 'de-DE', options: { year: 2023, month: 3 }, expected: "März 2023" },
+      { locale: 'fr-FR', options: { year: 2023, month: 3, day: 22 }, expected: "22 mars 2023" }
+    ])("should render $expected in $locale", ({ locale, options, expected }) => {
+      expect(format(new FuzzyDate(options), { locale, style: 'long' })).toBe(expected);
+    });
+
+    test("should use the Gregorian calendar in every locale", () => {
+      expect(format(new FuzzyDate({ year: 2023, month: 3 }), { locale: 'th-TH', style: 'long' })).toBe("มีนาคม 2023");
+    });
+  });
+
+  describe("early years", () => {
+    test("should render years before 1 AD with their era", () => {
+      expect(format(new FuzzyDate({ year: -43, month: 3, day: 15 }), { locale: 'en-US', style: 'long' })).toBe("March 15, 44 BC");
+    });
+
+    test("should keep years before 100 AD apart from days", () => {
+      expect(format(new FuzzyDate({ year: 12, month: 5 }), { locale: 'en-US', style: 'long' })).toBe("May 12 AD");
+    });
+  });
+
+  describe("zones", () => {
+    const fields = { year: 2023, month: 3, day: 22, hour: 10, minute: 30 };
+
+    test("should render the wall clock of the zone", () => {
+      expect(format(new FuzzyDate({ ...fields, zone: 'Asia/Tokyo' }), { locale: 'en-GB' })).toBe("22 Mar 2023, 10:30");
+    });
+
+    test.each([
+      { zone: 'Europe/Paris', style: 'long' as const, expected: "22 March 2023 at 10:30 CET" },
+      { zone: 'Europe/Paris', style: 'full' as const, expected: "Wednesday, 22 March 2023 at 10:30 Central European Standard Time" },
+      { zone: 'UTC', style: 'long' as const, expected: "22 March 2023 at 10:30 UTC" },
+      { zone: '+05:30', style: 'long' as const, expected: "22 March 2023 at 10:30 GMT+05:30" }
+    ])("should name the $zone zone in the $style style", ({ zone, style, expected }) => {
+      expect(format(new FuzzyDate({ ...fields, zone }), { locale: 'en-GB', style })).toBe(expected);
+    });
+
+    test("should name the zone at the time of the date", () => {
+      expect(format(new FuzzyDate({ ...fields, month: 7, zone: 'Europe/Paris' }), { locale: 'en-GB', style: 'long' }))
+        .toBe("22 July 2023 at 10:30 CEST");
+    });
+
+    test("should not name a zone without a time", () => {
+      expect(format(new FuzzyDate({ year: 2023, month: 3, day: 22, zone: 'Europe/Paris' }), { locale: 'en-GB', style: 'full' }))
+        .toBe("Wednesday, 22 March 2023");
+    });
+  });
+});
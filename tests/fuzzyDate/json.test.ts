@@ -0,0 +1,38 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDate JSON", () => {
+  describe("toJSON", () => {
+    test.each(["2023", "2023-05-15T10:30+02:00[Europe/Paris]", "198X", "2023-W12-3", "2022-35", "1920-03~±P1M"])(
+      "should write %s as its Fuzzy Date String",
+      value => {
+        expect(JSON.stringify({ date: FuzzyDate.fromString(value) })).toBe(JSON.stringify({ date: value }));
+      }
+    );
+
+    test("should write the dates of a range", () => {
+      const range = FuzzyDateRange.fromString("2023-03/..");
+      expect(JSON.stringify(range)).toBe('{"start":"2023-03"}');
+    });
+  });
+
+  describe("reviver", () => {
+    test("should revive what toJSON writes", () => {
+      const original = { title: "Moon landing", date: FuzzyDate.fromString("1969-07-20T20:17Z"), tags: ["198X"] };
+      const revived = JSON.parse(JSON.stringify(original), FuzzyDate.reviver);
+      expect(revived.title).toBe("Moon landing");
+      expect(revived.date).toBeInstanceOf(FuzzyDate);
+      expect(revived.date.equals(original.date)).toBe(true);
+      expect(revived.tags[0].toString()).toBe("198X");
+    });
+
+    test("should keep other values as they are", () => {
+      const revived = JSON.parse('{"name":"Ada","age":36,"note":"2023-13","empty":null,"flag":true}', FuzzyDate.reviver);
+      expect(revived).toEqual({ name: "Ada", age: 36, note: "2023-13", empty: null, flag: true });
+    });
+
+    test("should revive plain numbers written as strings", () => {
+      expect(JSON.parse('"42"', FuzzyDate.reviver)).toEqual(new FuzzyDate({ year: 42 }));
+    });
+  });
+});
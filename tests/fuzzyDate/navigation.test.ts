@@ -0,0 +1,192 @@
+import { FuzzyDate, FuzzyDatePrecisionError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate navigation between precisions", () => {
+  describe("truncateTo", () => {
+    test.each([
+      { date: "2023-05-15T10:30:45.500", precision: 'day', expected: "2023-05-15" },
+      { date: "2023-05-15T10:30", precision: 'hour', expected: "2023-05-15T10" },
+      { date: "2023-05-15", precision: 'month', expected: "2023-05" },
+      { date: "2023-05-15", precision: 'quarter', expected: "2023-34" },
+      { date: "2023-05-15", precision: 'half', expected: "2023-40" },
+      { date: "2023-05-15", precision: 'week', expected: "2023-W20" },
+      { date: "2023-05-15", precision: 'decade', expected: "202X" },
+      { date: "1987", precision: 'millennium', expected: "1XXX" },
+      { date: "-43-03-15", precision: 'decade', expected: "-4X" },
+      { date: "2020-W53-5T10", precision: 'day', expected: "2020-W53-5" },
+      { date: "2021-W01-1", precision: 'week', expected: "2021-W01" },
+      { date: "2023-05", precision: 'month', expected: "2023-05" }
+    ] as const)("should truncate $date to $precision", ({ date, precision, expected }) => {
+      expect(FuzzyDate.fromString(date).truncateTo(precision).toString()).toBe(expected);
+    });
+
+    test("should keep the zone, tolerance and the qualifiers of the remaining fields", () => {
+      expect(FuzzyDate.fromString("2004-06-11?±P2D").truncateTo('month').toString()).toBe("2004-06?±P2D");
+      expect(FuzzyDate.fromString("2004-06-~11").truncateTo('month').qualifiers).toBeUndefined();
+      expect(FuzzyDate.fromString("2023-05-15T10:30+02:00[Europe/Paris]").truncateTo('day').zone).toBe('Europe/Paris');
+    });
+
+    test.each([
+      { date: "2023", precision: 'month' },
+      { date: "2023-05", precision: 'week' },
+      { date: "2023-W20", precision: 'day' },
+      { date: "2023-W20-1", precision: 'month' },
+      { date: "2023-W20", precision: 'year' }
+    ] as const)("should reject truncating $date to $precision", ({ date, precision }) => {
+      expect(() => FuzzyDate.fromString(date).truncateTo(precision)).toThrow(FuzzyDatePrecisionError);
+    });
+  });
+
+  describe("withPrecision", () => {
+    test.each([
+      { date: "2023", precision: 'month', expected: "2023-01" },
+      { date: "2023", precision: 'quarter', expected: "2023-33" },
+      { date: "2023-41", precision: 'day', expected: "2023-07-01" },
+      { date: "198X", precision: 'year', expected: "1980" },
+      { date: "-4X", precision: 'year', expected: "-49" },
+      { date: "2023-W20", precision: 'hour', expected: "2023-W20-1T00" },
+      { date: "2023-05-15T10:30", precision: 'day', expected: "2023-05-15" }
+    ] as const)("should move $date to $precision", ({ date, precision, expected }) => {
+      expect(FuzzyDate.fromString(date).withPrecision(precision).toString()).toBe(expected);
+    });
+
+    test("should reject refining a calendar date to a week", () => {
+      expect(() => FuzzyDate.fromString("2023-03").withPrecision('week')).toThrow(FuzzyDatePrecisionError);
+      expect(() => FuzzyDate.fromString("2023-03").withPrecision('week')).toThrow("A month can't be refined to ISO weeks");
+    });
+  });
+
+  describe("parent", () => {
+    test.each([
+      { date: "2023-05-15T10:30", expected: "2023-05-15T10" },
+      { date: "2023-05-15", expected: "2023-05" },
+      { date: "2023-05", expected: "2023" },
+      { date: "2023-34", expected: "2023" },
+      { date: "2023", expected: "202X" },
+      { date: "202X", expected: "20XX" },
+      { date: "20XX", expected: "2XXX" },
+      { date: "2023-W20-3", expected: "2023-W20" },
+      { date: "2023-W20-3T10", expected: "2023-W20-3" },
+      { date: "-5", expected: "-0X" },
+      { date: "-15", expected: "-1X" },
+      { date: "-0X", expected: "-0XX" },
+      { date: "-1X", expected: "-0XX" },
+      { date: "-10X", expected: "-1XX" },
+      { date: "-0XX", expected: "-0XXX" },
+      { date: "0X", expected: "0XX" }
+    ])("should read the parent of $date as $expected", ({ date, expected }) => {
+      expect(FuzzyDate.fromString(date).parent()?.toString()).toBe(expected);
+    });
+
+    test.each(["-1", "-9", "-10", "-99", "-100", "-999", "-1000", "-1-06-15", "0", "9"])(
+      "should contain %s in each of its ancestors", value => {
+        const date = FuzzyDate.fromString(value);
+        for (let parent = date.parent(); parent; parent = parent.parent()) {
+          expect(parent.contains(date)).toBe(true);
+        }
+      }
+    );
+
+    test("should have no parent for a millennium or a week", () => {
+      expect(FuzzyDate.fromString("2XXX").parent()).toBeUndefined();
+      expect(FuzzyDate.fromString("2023-W20").parent()).toBeUndefined();
+    });
+  });
+
+  describe("children", () => {
+    const childrenOf = (date: string) => [...FuzzyDate.fromString(date).children()].map(child => child.toString());
+
+    test("should enumerate the months of a year", () => {
+      const months = childrenOf("2023");
+      expect(months).toHaveLength(12);
+      expect(months[0]).toBe("2023-01");
+      expect(months[11]).toBe("2023-12");
+    });
+
+    test("should respect leap years", () => {
+      expect(childrenOf("2024-02")).toHaveLength(29);
+      expect(childrenOf("2023-02")).toHaveLength(28);
+      expect(childrenOf("1900-02")).toHaveLength(28);
+      expect(childrenOf("2000-02").pop()).toBe("2000-02-29");
+    });
+
+    test.each([
+      { date: "198X", expected: ["1980", "1981", "1982", "1983", "1984", "1985", "1986", "1987", "1988", "1989"] },
+      { date: "-4X", expected: ["-49", "-48", "-47", "-46", "-45", "-44", "-43", "-42", "-41", "-40"] },
+      { date: "2023-35", expected: ["2023-07", "2023-08", "2023-09"] },
+      { date: "2023-W01", expected: ["2023-W01-1", "2023-W01-2", "2023-W01-3", "2023-W01-4", "2023-W01-5", "2023-W01-6", "2023-W01-7"] }
+    ])("should enumerate the children of $date", ({ date, expected }) => {
+      expect(childrenOf(date)).toEqual(expected);
+    });
+
+    test("should enumerate coarse and fine units", () => {
+      expect(childrenOf("1XXX")[9]).toBe("19XX");
+      expect(childrenOf("19XX")[0]).toBe("190X");
+      expect(childrenOf("2023-05-15T10")).toHaveLength(60);
+      expect(childrenOf("2023-05-15T10:30:45")).toHaveLength(1000);
+      expect(childrenOf("2023-05-15T10:30:45.500")).toEqual([]);
+    });
+
+    test("should leave out hours skipped by DST", () => {
+      expect(childrenOf("2023-03-26")).toHaveLength(24);
+      const parisHours = [...new FuzzyDate({ year: 2023, month: 3, day: 26, zone: 'Europe/Paris' }).children()];
+      expect(parisHours).toHaveLength(23);
+      expect(parisHours.map(hour => hour.hour)).not.toContain(2);
+    });
+
+    test("should give hours repeated by DST at both offsets", () => {
+      const parisHours = [...new FuzzyDate({ year: 2023, month: 10, day: 29, zone: 'Europe/Paris' }).children()].map(String);
+      expect(parisHours).toHaveLength(25);
+      expect(parisHours.slice(1, 5)).toEqual([
+        "2023-10-29T01+02:00[Europe/Paris]",
+        "2023-10-29T02+02:00[Europe/Paris]",
+        "2023-10-29T02+01:00[Europe/Paris]",
+        "2023-10-29T03+01:00[Europe/Paris]"
+      ]);
+    });
+
+    test("should give the minutes of a repeated hour at the offset of the hour", () => {
+      const later = [...FuzzyDate.fromString("2023-10-29T02+01:00[Europe/Paris]").children()];
+      expect(later).toHaveLength(60);
+      expect(later.every(minute => minute.toString().includes("+01:00"))).toBe(true);
+      expect(later[0].toEpochRange().earliest).toBe(Date.UTC(2023, 9, 29, 1));
+    });
+
+    test("should cover every moment of a day with a repeated hour", () => {
+      const day = new FuzzyDate({ year: 2023, month: 11, day: 5, zone: 'America/New_York' });
+      const starts = [...day.children()].map(hour => hour.toEpochRange().earliest);
+      const { earliest, latest } = day.toEpochRange();
+      expect(starts).toHaveLength(25);
+      expect(starts).toEqual(Array.from({ length: 25 }, (_, index) => earliest + index * 60 * 60 * 1000));
+      expect(latest).toBe(earliest + 25 * 60 * 60 * 1000 - 1);
+    });
+
+    test("should keep the qualifiers of the fields and the tolerance", () => {
+      const [first] = FuzzyDate.fromString("2004-06~±P1D").children();
+      expect(first.toString()).toBe("~2004-~06-01±P1D");
+      expect([...FuzzyDate.fromString("1850?").children()][0].toString()).toBe("?1850-01");
+    });
+
+    test("should be lazy", () => {
+      const iterator = FuzzyDate.fromString("2023").children();
+      expect(iterator.next().value?.toString()).toBe("2023-01");
+    });
+  });
+
+  describe("next and previous", () => {
+    test.each([
+      { date: "2023-12", next: "2024-01" },
+      { date: "2024-02-29", next: "2024-03-01" },
+      { date: "2023-36", next: "2024-33" },
+      { date: "198X", next: "199X" },
+      { date: "-1X", next: "-0X" },
+      { date: "-0X", next: "0X" },
+      { date: "-0XX", next: "0XX" },
+      { date: "-1XXX", next: "-0XXX" },
+      { date: "2020-W53", next: "2021-W01" },
+      { date: "2023-05-15T23:59:59.999", next: "2023-05-16T00:00:00.000" }
+    ])("should step from $date to $next and back", ({ date, next }) => {
+      expect(FuzzyDate.fromString(date).next().toString()).toBe(next);
+      expect(FuzzyDate.fromString(next).previous().toString()).toBe(date);
+    });
+  });
+});
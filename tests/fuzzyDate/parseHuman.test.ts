@@ -0,0 +1,160 @@
+import { FuzzyDate, FuzzyDateDeserializationError } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDate human parsing", () => {
+  describe("calendar dates", () => {
+    test.each([
+      { input: "2023", expected: "2023" },
+      { input: "March 2023", expected: "2023-03" },
+      { input: "mar. 2023", expected: "2023-03" },
+      { input: "3/2023", expected: "2023-03" },
+      { input: "2023/3", expected: "2023-03" },
+      { input: "2023 March", expected: "2023-03" },
+      { input: "22 Mar 2023", expected: "2023-03-22" },
+      { input: "March 22nd, 2023", expected: "2023-03-22" },
+      { input: "the 22nd of March 2023", expected: "2023-03-22" },
+      { input: "2023 March 22", expected: "2023-03-22" },
+      { input: "2023/03/22", expected: "2023-03-22" },
+      { input: "2023年3月22日", expected: "2023-03-22" },
+      { input: "2023-03-22T10:30", expected: "2023-03-22T10:30" },
+      { input: "-500", expected: "-500" },
+      { input: "-500-03", expected: "-500-03" },
+      { input: "-500 March", expected: "-500-03" }
+    ])("should read \"$input\" as $expected", ({ input, expected }) => {
+      const result = FuzzyDate.parseHuman(input);
+      expect(result.value.toString()).toBe(expected);
+      expect(result.confidence).toBe(1);
+      expect(result.alternatives).toEqual([]);
+    });
+
+    test("should infer the precision from the input", () => {
+      expect((FuzzyDate.parseHuman("March 2023").value as FuzzyDate).getPrecision()).toBe('month');
+      expect((FuzzyDate.parseHuman("22 Mar 2023").value as FuzzyDate).getPrecision()).toBe('day');
+      expect((FuzzyDate.parseHuman("22 Mar 2023 10:30").value as FuzzyDate).getPrecision()).toBe('minute');
+    });
+  });
+
+  describe("times of day", () => {
+    test.each([
+      { input: "22 Mar 2023 10:30", expected: "2023-03-22T10:30" },
+      { input: "22 Mar 2023, 10:30:45", expected: "2023-03-22T10:30:45" },
+      { input: "22 Mar 2023 at 10:30:45.500", expected: "2023-03-22T10:30:45.500" },
+      { input: "March 22, 2023 10pm", expected: "2023-03-22T22" },
+      { input: "March 22, 2023 12 a.m.", expected: "2023-03-22T00" },
+      { input: "March 22, 2023 12:15 PM", expected: "2023-03-22T12:15" }
+    ])("should read \"$input\" as $expected", ({ input, expected }) => {
+      expect(FuzzyDate.parseHuman(input).value.toString()).toBe(expected);
+    });
+
+    test("should only attach a time to a full date", () => {
+      expect(() => FuzzyDate.parseHuman("March 2023 10:30")).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should reject hours outside of the 12-hour clock", () => {
+      expect(() => FuzzyDate.parseHuman("22 Mar 2023 13 pm")).toThrow(FuzzyDateDeserializationError);
+    });
+  });
+
+  describe("ambiguous day and month", () => {
+    test("should follow the month-first order of en-US by default", () => {
+      const result = FuzzyDate.parseHuman("3/4/2023");
+      expect(result.value.toString()).toBe("2023-03-04");
+      expect(result.confidence).toBeCloseTo(2 / 3);
+      expect(result.alternatives.map(({ value }) => value.toString())).toEqual(["2023-04-03"]);
+      expect(result.alternatives[0].confidence).toBeCloseTo(1 / 3);
+    });
+
+    test("should follow the day-first order of the locale", () => {
+      const result = FuzzyDate.parseHuman("3/4/2023", { locale: 'en-GB' });
+      expect(result.value.toString()).toBe("2023-04-03");
+      expect(result.alternatives.map(({ value }) => value.toString())).toEqual(["2023-03-04"]);
+      expect(FuzzyDate.parseHuman("03.04.2023", { locale: 'de-DE' }).value.toString()).toBe("2023-04-03");
+    });
+
+    test("should be certain when only one order is a valid date", () => {
+      const result = FuzzyDate.parseHuman("22/3/2023");
+      expect(result.value.toString()).toBe("2023-03-22");
+      expect(result.confidence).toBe(1);
+      expect(result.alternatives).toEqual([]);
+    });
+
+    test("should not list the same date twice", () => {
+      const result = FuzzyDate.parseHuman("5/5/2023");
+      expect(result.confidence).toBe(1);
+      expect(result.alternatives).toEqual([]);
+    });
+  });
+
+  describe("locales", () => {
+    test("should recognize month names of the locale", () => {
+      expect(FuzzyDate.parseHuman("22 mars 2023", { locale: 'fr-FR' }).value.toString()).toBe("2023-03-22");
+      expect(FuzzyDate.parseHuman("22. März 2023", { locale: 'de-DE' }).value.toString()).toBe("2023-03-22");
+    });
+
+    test("should always recognize English month names", () => {
+      expect(FuzzyDate.parseHuman("March 2023", { locale: 'fr-FR' }).value.toString()).toBe("2023-03");
+    });
+  });
+
+  describe("ranges", () => {
+    test("should read a season as a range of months", () => {
+      const result = FuzzyDate.parseHuman("spring 1944");
+      expect(result.value).toBeInstanceOf(FuzzyDateRange);
+      expect(result.value.toString()).toBe("1944-03/1944-05");
+      expect(result.confidence).toBe(1);
+      expect(FuzzyDate.parseHuman("1944 Autumn").value.toString()).toBe("1944-09/1944-11");
+    });
+
+    test("should read winter as starting in December, with the previous winter as an alternative", () => {
+      const result = FuzzyDate.parseHuman("winter of 1944");
+      expect(result.value.toString()).toBe("1944-12/1945-02");
+      expect(result.alternatives.map(({ value }) => value.toString())).toEqual(["1943-12/1944-02"]);
+    });
+
+  });
+
+  describe("decades and centuries", () => {
+    test("should read a decade", () => {
+      const result = FuzzyDate.parseHuman("the 1980s");
+      expect(result.value.toString()).toBe("198X");
+      expect((result.value as FuzzyDate).getPrecision()).toBe('decade');
+      expect(result.confidence).toBe(1);
+      expect(FuzzyDate.parseHuman("1980's").value.toString()).toBe("198X");
+    });
+
+    test("should read a round hundred as a century, with its first decade as an alternative", () => {
+      const result = FuzzyDate.parseHuman("the 1900s");
+      expect(result.value.toString()).toBe("19XX");
+      expect(result.alternatives.map(({ value }) => value.toString())).toEqual(["190X"]);
+    });
+
+    test("should read an ordinal century as its hundreds, with the strict century as an alternative", () => {
+      const result = FuzzyDate.parseHuman("the 19th century");
+      expect(result.value.toString()).toBe("18XX");
+      expect(result.confidence).toBeCloseTo(2 / 3);
+      expect(result.alternatives[0].value).toBeInstanceOf(FuzzyDateRange);
+      expect(result.alternatives.map(({ value }) => value.toString())).toEqual(["1801/1900"]);
+      expect(FuzzyDate.parseHuman("1st century").value.toString()).toBe("0XX");
+    });
+  });
+
+  describe("unrecognized input", () => {
+    test.each([
+      "",
+      "yesterday",
+      "March",
+      "22 March",
+      "3/22/23",
+      "31/31/2023",
+      "February 30, 2023",
+      "2023 2024 2025 2026",
+      "0th century"
+    ])("should throw on \"%s\"", input => {
+      expect(() => FuzzyDate.parseHuman(input)).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should throw on an invalid locale", () => {
+      expect(() => FuzzyDate.parseHuman("2023", { locale: 'not a locale!' })).toThrow(RangeError);
+    });
+  });
+});
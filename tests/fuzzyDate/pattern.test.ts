@@ -0,0 +1,130 @@
+import {
+  FuzzyDate,
+  FuzzyDateCalendarError,
+  FuzzyDateDeserializationError,
+  FuzzyDateHierarchyError,
+  FuzzyDatePatternError
+} from "../../src/fuzzyDate";
+
+describe("FuzzyDate token patterns", () => {
+  const full = new FuzzyDate({ year: 2023, month: 5, day: 7, hour: 14, minute: 5, second: 9, millisecond: 42 });
+
+  describe("format", () => {
+    test.each([
+      { pattern: "DD.MM.YYYY", expected: "07.05.2023" },
+      { pattern: "d/M/y", expected: "7/5/2023" },
+      { pattern: "yyyy/MM", expected: "2023/05" },
+      { pattern: "MMM yyyy", expected: "May 2023" },
+      { pattern: "MMMM d, yyyy", expected: "May 7, 2023" },
+      { pattern: "yyyy-MM-dd HH:mm:ss.SSS", expected: "2023-05-07 14:05:09.042" },
+      { pattern: "H:m:s", expected: "14:5:9" },
+      { pattern: "hh:mm a", expected: "02:05 PM" },
+      { pattern: "h a", expected: "2 PM" },
+      { pattern: "'Year' yyyy, ''MM", expected: "Year 2023, '05" }
+    ])("should render $pattern as $expected", ({ pattern, expected }) => {
+      expect(full.format(pattern)).toBe(expected);
+    });
+
+    test("should render midnight and noon on a 12-hour clock", () => {
+      expect(new FuzzyDate({ year: 2023, month: 5, day: 7, hour: 0 }).format("hh a")).toBe("12 AM");
+      expect(new FuzzyDate({ year: 2023, month: 5, day: 7, hour: 12 }).format("h a")).toBe("12 PM");
+    });
+
+    test("should pad years to four digits, keeping the sign", () => {
+      expect(new FuzzyDate({ year: 44 }).format("yyyy")).toBe("0044");
+      expect(new FuzzyDate({ year: -43 }).format("yyyy")).toBe("-0043");
+      expect(new FuzzyDate({ year: -43 }).format("y")).toBe("-43");
+    });
+
+    test("should only render the optional segments the date has fields for", () => {
+      const pattern = "yyyy[-MM[-dd]]";
+      expect(new FuzzyDate({ year: 2023 }).format(pattern)).toBe("2023");
+      expect(new FuzzyDate({ year: 2023, month: 5 }).format(pattern)).toBe("2023-05");
+      expect(new FuzzyDate({ year: 2023, month: 5, day: 7 }).format(pattern)).toBe("2023-05-07");
+      expect(full.format(pattern)).toBe("2023-05-07");
+    });
+
+    test("should throw when a required field is missing", () => {
+      expect(() => new FuzzyDate({ year: 2023, month: 5 }).format("DD.MM.YYYY")).toThrow(FuzzyDatePatternError);
+      expect(() => new FuzzyDate({ year: 2023, month: 5 }).format("DD.MM.YYYY")).toThrow('Missing day for token "DD"');
+    });
+  });
+
+  describe("fromFormat", () => {
+    test.each([
+      { input: "07.05.2023", pattern: "DD.MM.YYYY", expected: "2023-05-07" },
+      { input: "2023/05", pattern: "YYYY/MM", expected: "2023-05" },
+      { input: "May 2023", pattern: "MMM yyyy", expected: "2023-05" },
+      { input: "may 2023", pattern: "MMM yyyy", expected: "2023-05" },
+      { input: "September 7, 2023", pattern: "MMMM d, yyyy", expected: "2023-09-07" },
+      { input: "2023-05-07 14:05:09.042", pattern: "yyyy-MM-dd HH:mm:ss.SSS", expected: "2023-05-07T14:05:09.042" },
+      { input: "7/5/2023 2:05 pm", pattern: "d/M/y h:mm a", expected: "2023-05-07T14:05" },
+      { input: "7/5/2023 12:05 AM", pattern: "d/M/y h:mm a", expected: "2023-05-07T00:05" },
+      { input: "-0043", pattern: "yyyy", expected: "-43" },
+      { input: "Year 2023", pattern: "'Year' yyyy", expected: "2023" }
+    ])("should read \"$input\" with $pattern", ({ input, pattern, expected }) => {
+      expect(FuzzyDate.fromFormat(input, pattern).toString()).toBe(expected);
+    });
+
+    test("should infer the precision from the optional segments present", () => {
+      const pattern = "yyyy[-MM[-dd]]";
+      expect(FuzzyDate.fromFormat("2023", pattern).getPrecision()).toBe('year');
+      expect(FuzzyDate.fromFormat("2023-05", pattern).getPrecision()).toBe('month');
+      expect(FuzzyDate.fromFormat("2023-05-15", pattern).getPrecision()).toBe('day');
+    });
+
+    test("should round-trip with format", () => {
+      const pattern = "[[[dd.]MM.]yyyy][ HH:mm]";
+      for (const date of [new FuzzyDate({ year: 2023 }), new FuzzyDate({ year: 2023, month: 5, day: 7, hour: 9, minute: 30 })]) {
+        expect(FuzzyDate.fromFormat(date.format(pattern), pattern)).toEqual(date);
+      }
+    });
+
+    test("should throw when the input doesn't match", () => {
+      expect(() => FuzzyDate.fromFormat("2023-05", "DD.MM.YYYY")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDate.fromFormat("2023-5", "yyyy-MM")).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should enforce the hierarchy of fields", () => {
+      expect(() => FuzzyDate.fromFormat("2023--07", "yyyy-[MM]-dd")).toThrow(FuzzyDateHierarchyError);
+    });
+
+    test("should enforce the calendar", () => {
+      expect(() => FuzzyDate.fromFormat("30.02.2023", "DD.MM.YYYY")).toThrow(FuzzyDateCalendarError);
+      expect(() => FuzzyDate.fromFormat("2023-13", "yyyy[-MM]")).toThrow(FuzzyDateCalendarError);
+    });
+
+    test.each([
+      { input: "2023-05-07 13 pm", pattern: "yyyy-MM-dd h a" },
+      { input: "2023-05-07 0 am", pattern: "yyyy-MM-dd h a" },
+      { input: "2023-05-07 00", pattern: "yyyy-MM-dd hh" },
+      { input: "2023-05-07 13:05", pattern: "yyyy-MM-dd hh:mm" }
+    ])("should reject \"$input\" with $pattern outside the 12 hours", ({ input, pattern }) => {
+      expect(() => FuzzyDate.fromFormat(input, pattern)).toThrow(FuzzyDateCalendarError);
+      expect(() => FuzzyDate.fromFormat(input, pattern)).toThrow("hour is out of range");
+    });
+
+    test("should read a 12-hour hour without a meridiem as it is", () => {
+      expect(FuzzyDate.fromFormat("2023-05-07 12", "yyyy-MM-dd hh").hour).toBe(12);
+    });
+  });
+
+  describe("invalid patterns", () => {
+    test.each([
+      { pattern: "yyyy-MM-dd]", message: 'Unbalanced "]"' },
+      { pattern: "yyyy[-MM", message: 'Unbalanced "["' },
+      { pattern: "'yyyy", message: 'Unterminated quote' },
+      { pattern: "yyyy-q", message: 'Unknown token "q"' },
+      { pattern: "yy", message: 'Unknown token "yy"' },
+      { pattern: "constructor", message: 'Unknown token "c"' }
+    ])("should reject $pattern", ({ pattern, message }) => {
+      expect(() => full.format(pattern)).toThrow(FuzzyDatePatternError);
+      expect(() => FuzzyDate.fromFormat("2023", pattern)).toThrow(message);
+    });
+
+    test.each(["yyyy-MM-dd a", "yyyy-MM-dd HH a", "yyyy-MM-dd[ a]"])("should reject reading %s without a 12-hour hour", pattern => {
+      expect(() => FuzzyDate.fromFormat("2023-05-07 pm", pattern)).toThrow(FuzzyDatePatternError);
+      expect(() => FuzzyDate.fromFormat("2023-05-07 pm", pattern)).toThrow('Meridiem "a" needs a 12-hour "h" or "hh"');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { FuzzyDate, FuzzyDateDeserializationError, FuzzyDateError, FuzzyDateHierarchyError, FuzzyDateOptions } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDate uncertain and approximate qualifiers", () => {
+  describe("creation", () => {
+    test("should expose the qualifiers of each component", () => {
+      const date = new FuzzyDate({ year: 2004, month: 6, day: 11, qualifiers: { month: 'uncertain' } });
+      expect(date.qualifiers).toEqual({ month: 'uncertain' });
+      expect(date.qualifiers?.year).toBeUndefined();
+    });
+
+    test("should leave qualifiers undefined when there are none", () => {
+      expect(new FuzzyDate({ year: 1850 }).qualifiers).toBeUndefined();
+      expect(new FuzzyDate({ year: 1850, qualifiers: {} }).qualifiers).toBeUndefined();
+      expect(new FuzzyDate({ year: 1850, qualifiers: { month: undefined } })).toEqual(new FuzzyDate({ year: 1850 }));
+    });
+
+    test.each([
+      { options: { year: 1850, qualifiers: { month: 'uncertain' as const } } },
+      { options: { year: 1920, month: 3, qualifiers: { day: 'approximate' as const } } },
+      { options: { year: 2022, quarter: 3, qualifiers: { month: 'approximate' as const } } }
+    ])("should reject a qualifier on a field that isn't set in $options", ({ options }) => {
+      expect(() => new FuzzyDate(options)).toThrow(FuzzyDateHierarchyError);
+    });
+
+    test.each([
+      { qualifiers: { year: 'bogus' } },
+      { qualifiers: { year: 'uncertain', month: null } },
+      { qualifiers: 'uncertain' }
+    ])("should report $qualifiers out of range", ({ qualifiers }) => {
+      const options = { year: 2023, month: 5, qualifiers } as unknown as FuzzyDateOptions;
+      expect(() => new FuzzyDate(options)).toThrow(FuzzyDateError);
+      expect(FuzzyDate.validate(options)).toEqual({
+        ok: false,
+        issues: [{ code: 'range', field: 'qualifiers', message: "FuzzyDate qualifiers must be 'uncertain', 'approximate' or 'uncertainApproximate'", position: undefined }]
+      });
+    });
+
+    test("should leave the range of the date unchanged", () => {
+      const approximate = new FuzzyDate({ year: 1920, month: 3, qualifiers: { year: 'approximate', month: 'approximate' } });
+      expect(approximate.toEpochRange()).toEqual(new FuzzyDate({ year: 1920, month: 3 }).toEpochRange());
+    });
+  });
+
+  describe("serialization", () => {
+    test.each([
+      { input: "1850?", qualifiers: { year: 'uncertain' } },
+      { input: "1920-03~", qualifiers: { year: 'approximate', month: 'approximate' } },
+      { input: "2004-06-11%", qualifiers: { year: 'uncertainApproximate', month: 'uncertainApproximate', day: 'uncertainApproximate' } },
+      { input: "2004-?06-11", qualifiers: { month: 'uncertain' } },
+      { input: "?2004-06-~11", qualifiers: { year: 'uncertain', day: 'approximate' } },
+      { input: "198X~", qualifiers: { year: 'approximate' } },
+      { input: "?-43-05", qualifiers: { year: 'uncertain' } },
+      { input: "?2022-35", qualifiers: { year: 'uncertain' } },
+      { input: "2004-06-11T10:30+02:00[Europe/Paris]?", qualifiers: { year: 'uncertain', month: 'uncertain', day: 'uncertain' } },
+      { input: "2004-06-~11T10:30Z", qualifiers: { day: 'approximate' } },
+      { input: "2004-06-11T10%±PT1H", qualifiers: { year: 'uncertainApproximate', month: 'uncertainApproximate', day: 'uncertainApproximate' } }
+    ])("should round-trip $input", ({ input, qualifiers }) => {
+      const date = FuzzyDate.fromString(input);
+      expect(date.qualifiers).toEqual(qualifiers);
+      expect(date.toString()).toBe(input);
+    });
+
+    test.each([
+      { input: "%2001", expected: "2001%", qualifiers: { year: 'uncertainApproximate' } },
+      { input: "2004?-06-11", expected: "?2004-06-11", qualifiers: { year: 'uncertain' } },
+      { input: "2004-06~-11", expected: "~2004-~06-11", qualifiers: { year: 'approximate', month: 'approximate' } },
+      { input: "?2004-06~", expected: "%2004-~06", qualifiers: { year: 'uncertainApproximate', month: 'approximate' } },
+      { input: "?2004-?06-?11", expected: "2004-06-11?", qualifiers: { year: 'uncertain', month: 'uncertain', day: 'uncertain' } }
+    ])("should read $input and write it as $expected", ({ input, expected, qualifiers }) => {
+      const date = FuzzyDate.fromString(input);
+      expect(date.qualifiers).toEqual(qualifiers);
+      expect(date.toString()).toBe(expected);
+    });
+
+    test.each(["??2004", "2004-06-11?T10:30", "2004-06-11T10??", "2004-06-11T10?Z", "2004-06-11?X", "2004?06"])("should reject %s", input => {
+      expect(() => FuzzyDate.fromString(input)).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test.each([
+      { input: "2023-W12?", position: 8 },
+      { input: "2023-~W12", position: 5 },
+      { input: "2023-W12-?3", position: 9 },
+      { input: "2023-W12-3~", position: 10 },
+      { input: "2023-W12-3T10Z?", position: 14 },
+      { input: "2023-33?", position: 7 },
+      { input: "2023-?33", position: 5 },
+      { input: "2023-40~", position: 7 },
+      { input: "?2022-%35", position: 6 }
+    ])("should reject the qualifier of a week, half or quarter in $input at position $position", ({ input, position }) => {
+      expect(() => FuzzyDate.fromString(input)).toThrow(new FuzzyDateDeserializationError(`Invalid format at position ${position}`));
+    });
+
+    test("should keep the qualifier of the year of a week, half or quarter", () => {
+      expect(FuzzyDate.fromString("2023?-W12").qualifiers).toEqual({ year: 'uncertain' });
+      expect(FuzzyDate.fromString("~2023-41").qualifiers).toEqual({ year: 'approximate' });
+    });
+
+    test("should keep qualifiers in ranges", () => {
+      expect(FuzzyDateRange.fromString("1984?/2004-06~").toString()).toBe("1984?/2004-06~");
+    });
+  });
+});
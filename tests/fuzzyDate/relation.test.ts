@@ -0,0 +1,93 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { AllenRelation, ALLEN_RELATIONS, getPossibleRelations } from "../../src/relation";
+
+describe("FuzzyDate.relation", () => {
+  const cases: Array<{ a: string; b: string; expected: AllenRelation }> = [
+    { a: "2021", b: "2023", expected: 'before' },
+    { a: "2022", b: "2023", expected: 'meets' },
+    { a: "2023-01", b: "2023", expected: 'starts' },
+    { a: "2023-05", b: "2023", expected: 'during' },
+    { a: "2023-12", b: "2023", expected: 'finishes' },
+    { a: "2023-05", b: "2023-05", expected: 'equals' },
+    { a: "2023", b: "2023-12-31", expected: 'finishedBy' },
+    { a: "2023", b: "2023-05-15T10", expected: 'contains' },
+    { a: "2023-05-15", b: "2023-05-15T00", expected: 'startedBy' },
+    { a: "2024-01-01", b: "2023-12-31", expected: 'metBy' },
+    { a: "2024", b: "2023-05", expected: 'after' },
+    { a: "-501", b: "-500", expected: 'meets' },
+    { a: "2023-05-15T10:30:45.500", b: "2023-05-15T10:30:45.501", expected: 'meets' }
+  ];
+
+  test.each(cases)("should find \"$a\" $expected \"$b\"", ({ a, b, expected }) => {
+    expect(FuzzyDate.relation(FuzzyDate.fromString(a), FuzzyDate.fromString(b))).toBe(expected);
+  });
+
+  test("should return the inverse relation when the arguments are swapped", () => {
+    const inverse = (relation: AllenRelation) => ALLEN_RELATIONS[ALLEN_RELATIONS.length - 1 - ALLEN_RELATIONS.indexOf(relation)];
+
+    cases.forEach(({ a, b, expected }) => {
+      expect(FuzzyDate.relation(FuzzyDate.fromString(b), FuzzyDate.fromString(a))).toBe(inverse(expected));
+    });
+  });
+});
+
+describe("FuzzyDate.possibleRelations", () => {
+  test("should allow every relation for a month within a year", () => {
+    const year = FuzzyDate.fromString("2023");
+    const month = FuzzyDate.fromString("2023-05");
+    expect(FuzzyDate.possibleRelations(year, month)).toEqual(ALLEN_RELATIONS);
+  });
+
+  test("should only allow 'before' and 'meets' for adjacent years", () => {
+    const a = FuzzyDate.fromString("2022");
+    const b = FuzzyDate.fromString("2023");
+    expect(FuzzyDate.possibleRelations(a, b)).toEqual(['before', 'meets']);
+  });
+
+  test("should only allow 'before' for separated years", () => {
+    const a = FuzzyDate.fromString("2021");
+    const b = FuzzyDate.fromString("2023");
+    expect(FuzzyDate.possibleRelations(a, b)).toEqual(['before']);
+  });
+
+  test("should only allow 'equals' for the same millisecond", () => {
+    const a = FuzzyDate.fromString("2023-05-15T10:30:45.500");
+    expect(FuzzyDate.possibleRelations(a, a)).toEqual(['equals']);
+  });
+
+  test("should exclude relations that would split a single millisecond", () => {
+    const day = FuzzyDate.fromString("2023-05-15");
+    const millisecond = FuzzyDate.fromString("2023-05-15T10:30:45.500");
+    expect(FuzzyDate.possibleRelations(day, millisecond)).toEqual([
+      'before', 'meets', 'equals', 'finishedBy', 'contains', 'startedBy', 'metBy', 'after'
+    ]);
+  });
+
+  test("should always include the exact relation", () => {
+    const dates = ["2023", "2023-05", "2023-05-15", "2022-12-31T23", "2024"].map(FuzzyDate.fromString);
+
+    dates.forEach(a => dates.forEach(b => {
+      expect(FuzzyDate.possibleRelations(a, b)).toContain(FuzzyDate.relation(a, b));
+    }));
+  });
+});
+
+describe("getPossibleRelations", () => {
+  test("should find partially overlapping intervals", () => {
+    expect(getPossibleRelations(
+      { start: [0, 0], end: [10, 10] },
+      { start: [5, 5], end: [15, 15] }
+    )).toEqual(['overlaps']);
+    expect(getPossibleRelations(
+      { start: [5, 5], end: [15, 15] },
+      { start: [0, 0], end: [10, 10] }
+    )).toEqual(['overlappedBy']);
+  });
+
+  test("should find nothing for empty bounds", () => {
+    expect(getPossibleRelations(
+      { start: [10, 10], end: [0, 0] },
+      { start: [0, 0], end: [10, 10] }
+    )).toEqual([]);
+  });
+});
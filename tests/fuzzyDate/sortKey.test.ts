@@ -0,0 +1,80 @@
+import { FuzzyDate, FuzzyDateDeserializationError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate sort keys", () => {
+  const date = (value: string) => FuzzyDate.fromString(value);
+  const sortByKey = (values: string[]) =>
+    values.map(value => date(value).toSortKey()).sort().map(key => FuzzyDate.fromSortKey(key).toString());
+
+  describe("toSortKey", () => {
+    test("should sort mixed precisions with coarser dates first", () => {
+      expect(sortByKey(["1991", "1990-05-03T10", "1990-05", "1990", "1990-05-03"]))
+        .toEqual(["1990", "1990-05", "1990-05-03", "1990-05-03T10", "1991"]);
+    });
+
+    test("should sort negative years and years of different widths numerically", () => {
+      expect(sortByKey(["10000", "-100", "99999", "-100000", "2023", "-99", "9999", "-1", "0"]))
+        .toEqual(["-100000", "-100", "-99", "-1", "0", "2023", "9999", "10000", "99999"]);
+    });
+
+    test("should sort the edges of the supported range", () => {
+      expect(sortByKey(["99999-12-31T23:59:59.999", "-100000-01-01T00:00:00.000", "99999", "-100000"]))
+        .toEqual(["-100000", "-100000-01-01T00:00:00.000", "99999", "99999-12-31T23:59:59.999"]);
+    });
+
+    test("should agree with compareByEarliest", () => {
+      const values = [
+        "2023", "2023-W01", "2022-12-31", "2023-33", "2023-40", "202X", "2XXX", "1850±P5Y", "1845",
+        "2023-05-15T10+02:00[Europe/Paris]", "2023-05-15T08Z", "2023-05-15T08:30Z", "1850~", "2023-01-02", "2023-W01-1", "2023-05-15T09:59:59.999Z", "2023-05-15T10+05:30"
+      ];
+      const byComparator = values.map(date).sort(FuzzyDate.compareByEarliest).map(value => value.toString());
+      expect(sortByKey(values)).toEqual(byComparator);
+    });
+
+    test("should start with a prefix of fixed width", () => {
+      const keys = ["-100000", "2023-05-15T10:30:45.500", "2023-W20-3", "1850±P5Y"].map(value => date(value).toSortKey());
+      const prefixes = keys.map(key => /^[0-9a-f]{14}[0-9a-c][0-9a-f]{14}/.exec(key)?.[0]);
+      expect(prefixes.every(prefix => prefix !== undefined)).toBe(true);
+    });
+
+    test("should write the widest tolerance the calendar takes", () => {
+      const date = new FuzzyDate({ year: 0, tolerance: { plusMinus: { years: 271000 } } });
+      expect(FuzzyDate.fromSortKey(date.toSortKey()).equals(date)).toBe(true);
+    });
+  });
+
+  describe("fromSortKey", () => {
+    test.each([
+      "2023",
+      "198X",
+      "-4X",
+      "?2004-~06-11",
+      "1920-03~±P1M",
+      "2021-41",
+      "2022-36",
+      "2023-W12-3T10:30Z",
+      "2023-05-15T10:30:45.500+02:00[Europe/Paris]±PT1H",
+      "-100000-01-01T00:00:00.000",
+      "99999-12-31T23:59:59.999"
+    ])("should read back %s", value => {
+      const original = date(value);
+      expect(FuzzyDate.fromSortKey(original.toSortKey()).equals(original)).toBe(true);
+    });
+
+    test("should read back zones that the serialization leaves out", () => {
+      const original = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Europe/Paris', tolerance: { plusMinus: { hours: 12 } } });
+      const key = original.toSortKey();
+      expect(key.endsWith("2023-05-15±PT12H[Europe/Paris]")).toBe(true);
+      expect(FuzzyDate.fromSortKey(key).equals(original)).toBe(true);
+    });
+
+    test.each([
+      { description: "an empty key", key: "" },
+      { description: "a Fuzzy Date String", key: "2023-05" },
+      { description: "a key whose prefix doesn't match its date", key: date("2023-05").toSortKey().replace("2023-05", "2023-06") },
+      { description: "a key with an invalid zone", key: date("2023-05-15").toSortKey() + "[Nowhere/Land]" },
+      { description: "a key with an unreadable date", key: `${date("2023").toSortKey().slice(0, 29)}2023-13[UTC]` }
+    ])("should reject $description", ({ key }) => {
+      expect(() => FuzzyDate.fromSortKey(key)).toThrow(FuzzyDateDeserializationError);
+    });
+  });
+});
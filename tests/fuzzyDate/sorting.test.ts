@@ -0,0 +1,114 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+
+describe("FuzzyDate sorting", () => {
+  const sortStrings = (dates: string[], comparator: (a: FuzzyDate, b: FuzzyDate) => number) =>
+    dates.map(FuzzyDate.fromString).sort(comparator).map(date => date.toString());
+
+  describe("compareByEarliest", () => {
+    test("should sort mixed precisions with coarser dates first", () => {
+      expect(sortStrings(
+        ["1991", "1990-05-03T10", "1990-05", "1990", "1990-05-03"],
+        FuzzyDate.compareByEarliest
+      )).toEqual(["1990", "1990-05", "1990-05-03", "1990-05-03T10", "1991"]);
+    });
+
+    test("should sort negative years and years with more than four digits numerically", () => {
+      expect(sortStrings(
+        ["10000", "-100", "99999", "-100000", "2023", "-99", "9999"],
+        FuzzyDate.compareByEarliest
+      )).toEqual(["-100000", "-100", "-99", "2023", "9999", "10000", "99999"]);
+    });
+
+    test("should sort the edges of the supported range", () => {
+      expect(sortStrings(
+        ["99999-12-31T23:59:59.999", "-100000-01-01T00:00:00.000", "99999", "-100000"],
+        FuzzyDate.compareByEarliest
+      )).toEqual(["-100000", "-100000-01-01T00:00:00.000", "99999", "99999-12-31T23:59:59.999"]);
+    });
+  });
+
+  describe("compareByLatest", () => {
+    test("should sort by the end of each range with coarser dates first", () => {
+      expect(sortStrings(
+        ["2024", "2023-12", "2023", "2023-05", "2023-01"],
+        FuzzyDate.compareByLatest
+      )).toEqual(["2023-01", "2023-05", "2023", "2023-12", "2024"]);
+    });
+  });
+
+  describe("compareByMidpoint", () => {
+    test("should sort by the middle of each range", () => {
+      expect(sortStrings(
+        ["2023-12", "2023", "2023-01", "2022-12-31"],
+        FuzzyDate.compareByMidpoint
+      )).toEqual(["2022-12-31", "2023-01", "2023", "2023-12"]);
+    });
+
+    test("should break ties by precision", () => {
+      expect(sortStrings(
+        ["2023-05-15T12", "2023-05-15"],
+        FuzzyDate.compareByMidpoint
+      )).toEqual(["2023-05-15", "2023-05-15T12"]);
+    });
+  });
+
+  describe("comparator", () => {
+    test("should default to earliest with coarser dates first", () => {
+      expect(sortStrings(
+        ["2023-01-01", "2023-01", "2023"],
+        FuzzyDate.comparator()
+      )).toEqual(["2023", "2023-01", "2023-01-01"]);
+    });
+
+    test("should put finer dates first when asked", () => {
+      expect(sortStrings(
+        ["2023", "1990", "2023-01", "2023-01-01"],
+        FuzzyDate.comparator({ ties: 'finerFirst' })
+      )).toEqual(["1990", "2023-01-01", "2023-01", "2023"]);
+      expect(sortStrings(
+        ["2023", "2023-12-31", "2023-12"],
+        FuzzyDate.comparator({ by: 'latest', ties: 'finerFirst' })
+      )).toEqual(["2023-12-31", "2023-12", "2023"]);
+    });
+
+    test("should only return 0 for the same date", () => {
+      const compare = FuzzyDate.comparator();
+      expect(compare(FuzzyDate.fromString("2023-05"), new FuzzyDate({ year: 2023, month: 5 }))).toBe(0);
+      expect(compare(FuzzyDate.fromString("2023-05"), FuzzyDate.fromString("2023-05-01"))).toBe(-1);
+      expect(compare(FuzzyDate.fromString("2023-05-01"), FuzzyDate.fromString("2023-05"))).toBe(1);
+    });
+
+    test.each([
+      { description: "a qualifier", a: FuzzyDate.fromString("1850"), b: FuzzyDate.fromString("1850~") },
+      { description: "a week date", a: FuzzyDate.fromString("2023-01-02"), b: FuzzyDate.fromString("2023-W01-1") },
+      { description: "a zone", a: FuzzyDate.fromString("2023-05"), b: new FuzzyDate({ year: 2023, month: 5, zone: 'UTC' }) },
+      { description: "an offset", a: FuzzyDate.fromString("2023-05-15T10+02:00"), b: FuzzyDate.fromString("2023-05-15T08Z") }
+    ])("should tell dates of the same range apart by $description", ({ a, b }) => {
+      const compare = FuzzyDate.comparator();
+      expect(compare(a, b)).toBe(a.hashKey() < b.hashKey() ? -1 : 1);
+      expect(compare(b, a)).toBe(-compare(a, b));
+    });
+
+    test("should be a consistent total order", () => {
+      const dates = [
+        "-100000", "-1", "0", "1990", "1990-05", "1990-05-03", "1990-05-03T10", "1990-05-03T10:00",
+        "1990-05-31T23:59:59.999", "1990-06", "1991", "99999", "1991~", "1991-W01-1", "1990-12-31", "1990-05-03T12+02:00"
+      ].map(FuzzyDate.fromString);
+
+      (['earliest', 'latest', 'midpoint'] as const).forEach(by => {
+        (['coarserFirst', 'finerFirst'] as const).forEach(ties => {
+          const compare = FuzzyDate.comparator({ by, ties });
+          dates.forEach(a => dates.forEach(b => {
+            expect(compare(a, b) + compare(b, a)).toBe(0);
+            expect(compare(a, b) === 0).toBe(a === b);
+            dates.forEach(c => {
+              if (compare(a, b) < 0 && compare(b, c) < 0) {
+                expect(compare(a, c)).toBe(-1);
+              }
+            });
+          }));
+        });
+      });
+    });
+  });
+});
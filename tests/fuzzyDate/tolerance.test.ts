@@ -0,0 +1,122 @@
+import { FuzzyDate, FuzzyDateDeserializationError, FuzzyDateToleranceError } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDate tolerance", () => {
+  const circa1850 = new FuzzyDate({ year: 1850, tolerance: { plusMinus: { years: 5 } } });
+
+  describe("creation", () => {
+    test("should keep the precision and fields as they are", () => {
+      expect(circa1850.year).toBe(1850);
+      expect(circa1850.getPrecision()).toBe('year');
+      expect(circa1850.tolerance).toEqual({ plusMinus: { years: 5 } });
+    });
+
+    test("should leave out zero units", () => {
+      expect(new FuzzyDate({ year: 1850, tolerance: { plusMinus: { years: 5, months: 0 } } }).tolerance)
+        .toEqual({ plusMinus: { years: 5 } });
+      expect(new FuzzyDate({ year: 1850, tolerance: { plusMinus: { years: 0 } } }).tolerance).toBeUndefined();
+      expect(new FuzzyDate({ year: 1850, tolerance: { plusMinus: {} } })).toEqual(new FuzzyDate({ year: 1850 }));
+    });
+
+    test.each([
+      { years: -5 },
+      { months: 1.5 },
+      { days: Infinity }
+    ])("should reject a tolerance of %o", plusMinus => {
+      expect(() => new FuzzyDate({ year: 1850, tolerance: { plusMinus } })).toThrow(FuzzyDateToleranceError);
+    });
+
+    test.each([
+      { year: 2023, plusMinus: { years: 1e9 } },
+      { year: 2023, plusMinus: { days: 1e8 } },
+      { year: -271000, plusMinus: { years: 1000 } },
+      { year: 271000, plusMinus: { milliseconds: Number.MAX_SAFE_INTEGER } }
+    ])("should reject a tolerance that pads $year beyond the calendar by %o", ({ year, plusMinus }) => {
+      const options = { year, tolerance: { plusMinus } };
+      expect(() => new FuzzyDate(options)).toThrow(new FuzzyDateToleranceError('FuzzyDate tolerance pads the date beyond the calendar'));
+      expect(FuzzyDate.validate(options)).toEqual({
+        ok: false,
+        issues: [{ code: 'range', field: 'tolerance', message: 'FuzzyDate tolerance pads the date beyond the calendar', position: undefined }]
+      });
+    });
+
+    test("should accept a tolerance that pads the date up to the edge of the calendar", () => {
+      const date = new FuzzyDate({ year: 2023, month: 1, day: 1, zone: 'Europe/Paris', tolerance: { plusMinus: { years: 270000 } } });
+      expect(Number.isNaN(date.toEpochRange().earliest)).toBe(false);
+      expect(date.toSortKey()).toMatch(/^[0-9a-f]{29}/);
+    });
+  });
+
+  describe("padding", () => {
+    test("should widen the padding on both sides", () => {
+      expect(circa1850.getEarliestPaddingOptions()).toEqual({ year: 1845, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 });
+      expect(circa1850.getLatestPaddingOptions()).toEqual({ year: 1855, month: 12, day: 31, hour: 23, minute: 59, second: 59, millisecond: 999 });
+    });
+
+    test.each([
+      { options: { year: 2023, month: 3 }, plusMinus: { months: 1 }, earliest: { month: 2, day: 1 }, latest: { month: 4, day: 30 } },
+      { options: { year: 2023, month: 3, day: 22 }, plusMinus: { hours: 12 }, earliest: { day: 21, hour: 12 }, latest: { day: 23, hour: 11 } },
+      { options: { year: 2023, quarter: 2 }, plusMinus: { weeks: 1 }, earliest: { month: 3, day: 25 }, latest: { month: 7, day: 7 } }
+    ])("should widen $options by $plusMinus", ({ options, plusMinus, earliest, latest }) => {
+      const date = new FuzzyDate({ ...options, tolerance: { plusMinus } });
+      expect(date.getEarliestPaddingOptions()).toMatchObject(earliest);
+      expect(date.getLatestPaddingOptions()).toMatchObject(latest);
+    });
+
+    test("should keep working for BC years", () => {
+      const date = new FuzzyDate({ year: -43, tolerance: { plusMinus: { years: 10 } } });
+      expect(date.getEarliestPaddingOptions()).toMatchObject({ year: -53 });
+      expect(date.getLatestPaddingOptions()).toMatchObject({ year: -33 });
+    });
+  });
+
+  describe("comparison", () => {
+    test("should compare on the widened range", () => {
+      expect(circa1850.isBefore(new FuzzyDate({ year: 1853 }))).toBe('maybe');
+      expect(circa1850.isBefore(new FuzzyDate({ year: 1856 }))).toBe('yes');
+      expect(FuzzyDate.relation(circa1850, new FuzzyDate({ year: 1850 }))).toBe('contains');
+    });
+  });
+
+  describe("serialization", () => {
+    test.each([
+      { options: { year: 1850 }, plusMinus: { years: 5 }, expected: "1850±P5Y" },
+      { options: { year: 1920, month: 3, qualifiers: { year: 'approximate' as const, month: 'approximate' as const } }, plusMinus: { months: 1 }, expected: "1920-03~±P1M" },
+      { options: { year: 198 }, plusMinus: { years: 1, weeks: 2, days: 3 }, expected: "198±P1Y2W3D" },
+      { options: { year: 2023, month: 3, day: 22, hour: 10, minute: 30, zone: 'Z' }, plusMinus: { hours: 1, minutes: 30 }, expected: "2023-03-22T10:30Z±PT1H30M" },
+      { options: { year: 2023, month: 3, day: 22 }, plusMinus: { days: 1, seconds: 2, milliseconds: 500 }, expected: "2023-03-22±P1DT2.500S" }
+    ])("should round-trip $expected", ({ options, plusMinus, expected }) => {
+      const date = new FuzzyDate({ ...options, tolerance: { plusMinus } });
+      expect(date.toString()).toBe(expected);
+      expect(FuzzyDate.fromString(expected)).toEqual(date);
+    });
+
+    test("should carry milliseconds into seconds", () => {
+      const date = new FuzzyDate({ year: 2023, tolerance: { plusMinus: { seconds: 1, milliseconds: 2000 } } });
+      expect(date.toString()).toBe("2023±PT3S");
+    });
+
+    test("should keep the offset of the date itself", () => {
+      // The tolerance reaches back before the switch to summer time in Paris
+      const date = FuzzyDate.fromString("2023-03-26T12+02:00[Europe/Paris]±P1D");
+      expect(date.toString()).toBe("2023-03-26T12+02:00[Europe/Paris]±P1D");
+      expect(date.getEarliestPaddingOptions()).toMatchObject({ day: 25, hour: 12 });
+    });
+
+    test.each(["1850±5Y", "1850±P", "1850±PT", "1850±P5Y±P1Y", "1850±P-5Y", "1850±"])("should reject %s", input => {
+      expect(() => FuzzyDate.fromString(input)).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should keep tolerances in ranges", () => {
+      expect(FuzzyDateRange.fromString("1850±P5Y/1900").toString()).toBe("1850±P5Y/1900");
+    });
+  });
+
+  describe("formatting", () => {
+    test("should format the date without its tolerance", () => {
+      const decade = new FuzzyDate({ year: 1980, unspecifiedYearDigits: 1, tolerance: { plusMinus: { years: 2 } } });
+      expect(decade.format({ locale: 'en-US' }).replace(/\s/g, ' ')).toBe("1980 – 1989");
+      expect(circa1850.format({ locale: 'en-US' })).toBe("1850");
+    });
+  });
+});
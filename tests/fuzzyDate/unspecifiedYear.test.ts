@@ -0,0 +1,153 @@
+import { FuzzyDate, FuzzyDateCalendarError, FuzzyDateDeserializationError, FuzzyDateHierarchyError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate decade, century and millennium precision", () => {
+  describe("creation", () => {
+    test.each([
+      { digits: 1, precision: 'decade' },
+      { digits: 2, precision: 'century' },
+      { digits: 3, precision: 'millennium' }
+    ])("should create a $precision with $digits unspecified digits", ({ digits, precision }) => {
+      expect(new FuzzyDate({ year: 1000, unspecifiedYearDigits: digits }).getPrecision()).toBe(precision);
+    });
+
+    test.each([
+      { year: 1985, unspecifiedYearDigits: 1 },
+      { year: 1980, unspecifiedYearDigits: 2 },
+      { year: 1900, unspecifiedYearDigits: 3 },
+      { year: 1000, unspecifiedYearDigits: 0 },
+      { year: 1000, unspecifiedYearDigits: 4 },
+      { year: 1000, unspecifiedYearDigits: 1.5 }
+    ])("should reject %o off the calendar", options => {
+      expect(() => new FuzzyDate(options)).toThrow(FuzzyDateCalendarError);
+    });
+
+    test.each([
+      { month: 1 },
+      { quarter: 1 },
+      { week: 1 }
+    ])("should reject %o below unspecified digits", options => {
+      expect(() => new FuzzyDate({ year: 1980, unspecifiedYearDigits: 1, ...options })).toThrow(FuzzyDateHierarchyError);
+    });
+  });
+
+  describe("padding", () => {
+    test.each([
+      { options: { year: 1980, unspecifiedYearDigits: 1 }, start: 1980, end: 1989 },
+      { options: { year: 1800, unspecifiedYearDigits: 2 }, start: 1800, end: 1899 },
+      { options: { year: 1000, unspecifiedYearDigits: 3 }, start: 1000, end: 1999 },
+      { options: { year: 0, unspecifiedYearDigits: 1 }, start: 0, end: 9 }
+    ])("should span the years of $options", ({ options, start, end }) => {
+      const date = new FuzzyDate(options);
+      expect(date.getEarliestPaddingOptions()).toEqual({ year: start, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 });
+      expect(date.getLatestPaddingOptions()).toEqual({ year: end, month: 12, day: 31, hour: 23, minute: 59, second: 59, millisecond: 999 });
+    });
+
+    test("should count back from BC years", () => {
+      expect(new FuzzyDate({ year: -40, unspecifiedYearDigits: 1 }).getEarliestPaddingOptions()).toMatchObject({ year: -49 });
+      expect(new FuzzyDate({ year: -40, unspecifiedYearDigits: 1 }).getLatestPaddingOptions()).toMatchObject({ year: -40 });
+      expect(new FuzzyDate({ year: -100, unspecifiedYearDigits: 2 }).getEarliestPaddingOptions()).toMatchObject({ year: -199 });
+    });
+
+    test.each([
+      { digits: 1, start: -9 },
+      { digits: 2, start: -99 },
+      { digits: 3, start: -999 }
+    ])("should span the BC years before year 0 with -0 and $digits digits", ({ digits, start }) => {
+      const date = new FuzzyDate({ year: -0, unspecifiedYearDigits: digits });
+      expect(date.getEarliestPaddingOptions()).toMatchObject({ year: start, month: 1, day: 1 });
+      expect(date.getLatestPaddingOptions()).toMatchObject({ year: -1, month: 12, day: 31 });
+    });
+  });
+
+  describe("comparison", () => {
+    test("should nest years in decades and decades in centuries", () => {
+      const century = new FuzzyDate({ year: 1900, unspecifiedYearDigits: 2 });
+      const decade = new FuzzyDate({ year: 1990, unspecifiedYearDigits: 1 });
+      expect(FuzzyDate.relation(century, decade)).toBe('finishedBy');
+      expect(FuzzyDate.relation(decade, new FuzzyDate({ year: 1995 }))).toBe('contains');
+      expect(decade.isBefore(new FuzzyDate({ year: 2000 }))).toBe('yes');
+    });
+
+    test("should sort coarser precisions first on ties", () => {
+      const dates = [
+        new FuzzyDate({ year: 1000 }),
+        new FuzzyDate({ year: 1000, unspecifiedYearDigits: 1 }),
+        new FuzzyDate({ year: 1000, unspecifiedYearDigits: 3 }),
+        new FuzzyDate({ year: 1000, unspecifiedYearDigits: 2 })
+      ];
+      expect(dates.sort(FuzzyDate.compareByEarliest).map(date => date.getPrecision()))
+        .toEqual(['millennium', 'century', 'decade', 'year']);
+    });
+  });
+
+  describe("serialization", () => {
+    test.each([
+      { options: { year: 1980, unspecifiedYearDigits: 1 }, expected: "198X" },
+      { options: { year: 1800, unspecifiedYearDigits: 2 }, expected: "18XX" },
+      { options: { year: 1000, unspecifiedYearDigits: 3 }, expected: "1XXX" },
+      { options: { year: 0, unspecifiedYearDigits: 1 }, expected: "0X" },
+      { options: { year: -40, unspecifiedYearDigits: 1 }, expected: "-4X" },
+      { options: { year: -0, unspecifiedYearDigits: 1 }, expected: "-0X" },
+      { options: { year: -0, unspecifiedYearDigits: 3 }, expected: "-0XXX" }
+    ])("should round-trip $expected with unspecified digits", ({ options, expected }) => {
+      const date = new FuzzyDate(options);
+      expect(date.toString()).toBe(expected);
+      expect(FuzzyDate.fromString(expected)).toEqual(date);
+    });
+
+    test.each(["19X5", "1XXXX", "198X-01", "X"])("should reject %s", input => {
+      expect(() => FuzzyDate.fromString(input)).toThrow(FuzzyDateDeserializationError);
+    });
+  });
+
+  describe("conversion, formatting and parsing", () => {
+    test("should truncate a native Date to its decade, century or millennium", () => {
+      const date = new Date(Date.UTC(1987, 5, 15));
+      expect(FuzzyDate.fromDate(date, 'decade', { zone: 'UTC' }).toString()).toBe("198X");
+      expect(FuzzyDate.fromDate(date, 'century', { zone: 'UTC' }).toString()).toBe("19XX");
+      expect(FuzzyDate.fromDate(date, 'millennium', { zone: 'UTC' }).toString()).toBe("1XXX");
+    });
+
+    test("should truncate BC years toward zero", () => {
+      const date = new Date(Date.UTC(2000, 0, 1));
+      date.setUTCFullYear(-5);
+      expect(FuzzyDate.fromDate(date, 'decade', { zone: 'UTC' }).toString()).toBe("-0X");
+      date.setUTCFullYear(-45);
+      expect(FuzzyDate.fromDate(date, 'decade', { zone: 'UTC' }).toString()).toBe("-4X");
+    });
+
+    test.each(["-1", "-5", "-9", "-10", "-99", "-100", "-999", "-1000", "0", "5"])(
+      "should truncate %s to units that contain it", value => {
+        const date = FuzzyDate.fromString(value);
+        for (const precision of ['decade', 'century', 'millennium'] as const) {
+          expect(date.truncateTo(precision).contains(date)).toBe(true);
+        }
+      }
+    );
+
+    test("should keep year 0 apart from the BC decade before it", () => {
+      expect(FuzzyDate.fromString("0").truncateTo('decade').toString()).toBe("0X");
+      expect(FuzzyDate.fromString("-0").equals(FuzzyDate.fromString("0"))).toBe(true);
+      expect(FuzzyDate.fromString("0X").overlaps(FuzzyDate.fromString("-0X"))).toBe('no');
+      expect(FuzzyDate.fromString("1X").minus({ years: 20 }).toString()).toBe("-0X");
+      expect(FuzzyDate.fromString("-0X").plus({}).toString()).toBe("-0X");
+    });
+
+    test("should format as the span of years", () => {
+      // ICU surrounds the dash of a range with thin spaces
+      expect(new FuzzyDate({ year: 1980, unspecifiedYearDigits: 1 }).format({ locale: 'en-US' }).replace(/\s/g, ' '))
+        .toBe("1980 – 1989");
+    });
+
+    test("should format and parse unspecified digits of the year token", () => {
+      const decade = new FuzzyDate({ year: 1980, unspecifiedYearDigits: 1 });
+      expect(decade.format("yyyy")).toBe("198X");
+      expect(new FuzzyDate({ year: 40, unspecifiedYearDigits: 1 }).format("yyyy")).toBe("004X");
+      expect(FuzzyDate.fromString("-0X").format("y")).toBe("-0X");
+      expect(FuzzyDate.fromString("0XX").format("y")).toBe("0XX");
+      expect(FuzzyDate.fromFormat("-000X", "yyyy").toString()).toBe("-0X");
+      expect(FuzzyDate.fromFormat("198X", "yyyy")).toEqual(decade);
+      expect(FuzzyDate.fromFormat("c. 18xx", "'c.' y")).toEqual(new FuzzyDate({ year: 1800, unspecifiedYearDigits: 2 }));
+    });
+  });
+});
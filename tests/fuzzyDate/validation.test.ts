@@ -0,0 +1,202 @@
+import {
+  FuzzyDate,
+  FuzzyDateCalendarError,
+  FuzzyDateDeserializationError,
+  FuzzyDateHierarchyError,
+  FuzzyDateOptions
+} from "../../src/fuzzyDate";
+
+describe("FuzzyDate validation", () => {
+  describe("validate", () => {
+    test("should return the FuzzyDate for valid options", () => {
+      const result = FuzzyDate.validate({ year: 2023, month: 5 });
+      expect(result).toEqual({ ok: true, value: FuzzyDate.fromString("2023-05") });
+    });
+
+    test("should report every issue at once", () => {
+      const result = FuzzyDate.validate({ year: 2023, month: 13, hour: 25, tolerance: { plusMinus: { days: -1 } }, zone: 'Nowhere/Land' });
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.issues.map(({ code, field }) => ({ code, field }))).toEqual([
+        { code: 'range', field: 'tolerance' },
+        { code: 'format', field: 'zone' },
+        { code: 'hierarchy', field: 'hour' },
+        { code: 'range', field: 'month' },
+        { code: 'range', field: 'hour' }
+      ]);
+    });
+
+    test.each([
+      { options: { year: 2023, day: 5 }, field: 'day' },
+      { options: { year: 2023, month: 5, minute: 30 }, field: 'minute' },
+      { options: { year: 2023, month: 5, qualifiers: { day: 'uncertain' as const } }, field: 'qualifiers' },
+      { options: { year: 1980, unspecifiedYearDigits: 1, month: 5 }, field: 'month' },
+      { options: { year: 2023, quarter: 2, month: 5 }, field: 'month' },
+      { options: { year: 2023, half: 1, quarter: 2 }, field: 'quarter' },
+      { options: { year: 2023, week: 12, month: 3 }, field: 'month' },
+      { options: { year: 2023, weekday: 3, day: 3 }, field: 'day' }
+    ])("should report $field out of hierarchy in $options", ({ options, field }) => {
+      expect(FuzzyDate.validate(options)).toEqual({
+        ok: false,
+        issues: [{ code: 'hierarchy', field, message: `FuzzyDate fields must be filled in order, so ${field} can't be set here`, position: undefined }]
+      });
+    });
+
+    test.each([
+      { options: { year: 2023.5 }, field: 'year' },
+      { options: { year: NaN }, field: 'year' },
+      { options: { year: 1985, unspecifiedYearDigits: 1 }, field: 'year' },
+      { options: { year: 2000, unspecifiedYearDigits: 4 }, field: 'unspecifiedYearDigits' },
+      { options: { year: 2023, half: 3 }, field: 'half' },
+      { options: { year: 2023, quarter: 0 }, field: 'quarter' },
+      { options: { year: 2023, month: 0 }, field: 'month' },
+      { options: { year: 2023, month: 1, day: 32 }, field: 'day' },
+      { options: { year: 2023, week: 54 }, field: 'week' },
+      { options: { year: 2023, week: 1, weekday: 8 }, field: 'weekday' },
+      { options: { year: 2023, month: 1, day: 1, hour: 24 }, field: 'hour' },
+      { options: { year: 2023, month: 1, day: 1, hour: 0, minute: 60 }, field: 'minute' },
+      { options: { year: 2023, month: 1, day: 1, hour: 0, minute: 0, second: 1.5 }, field: 'second' },
+      { options: { year: 2023, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 1000 }, field: 'millisecond' },
+      { options: { year: 300000, month: 1 }, field: 'year' },
+      { options: { year: 1e12 }, field: 'year' }
+    ])("should report $field out of range in $options", ({ options, field }) => {
+      expect(FuzzyDate.validate(options as FuzzyDateOptions)).toEqual({
+        ok: false,
+        issues: [{ code: 'range', field, message: `FuzzyDate ${field} is out of range`, position: undefined }]
+      });
+    });
+
+    test.each([
+      { options: { year: 2023, month: 2, day: 29 }, field: 'day' },
+      { options: { year: 2023, week: 53 }, field: 'week' },
+      { options: { year: 2023, month: 3, day: 26, hour: 2, zone: 'Europe/Paris' }, field: 'hour' },
+      // Samoa skipped December 30, 2011 when it crossed the date line
+      { options: { year: 2011, month: 12, day: 30, zone: 'Pacific/Apia' }, field: 'day' },
+      { options: { year: 2011, week: 52, weekday: 5, zone: 'Pacific/Apia' }, field: 'weekday' }
+    ])("should report $field off the calendar in $options", ({ options, field }) => {
+      expect(FuzzyDate.validate(options as FuzzyDateOptions)).toEqual({
+        ok: false,
+        issues: [{ code: 'calendar', field, message: 'FuzzyDate must represent a valid calendar date', position: undefined }]
+      });
+    });
+
+    test.each([{}, { plusMinus: null }, { plusMinus: 5 }])("should report the tolerance %p", tolerance => {
+      expect(FuzzyDate.validate({ year: 2023, tolerance } as never)).toEqual({
+        ok: false,
+        issues: [{ code: 'range', field: 'tolerance', message: 'FuzzyDate tolerance must be a duration in non-negative whole units', position: undefined }]
+      });
+    });
+
+    test.each([null, undefined, 2023, "2023"])("should report %p as options that aren't an object", options => {
+      expect(FuzzyDate.validate(options as never)).toEqual({
+        ok: false,
+        issues: [{ code: 'format', field: undefined, message: 'FuzzyDate options must be an object', position: undefined }]
+      });
+    });
+
+    test("should only check the calendar once every field is in range", () => {
+      const result = FuzzyDate.validate({ year: 2023, month: 2, day: 30, hour: 25 });
+      expect(!result.ok && result.issues.map(issue => issue.field)).toEqual(['hour']);
+    });
+  });
+
+  describe("safeParse", () => {
+    test("should return the FuzzyDate for a valid string", () => {
+      const result = FuzzyDate.safeParse("2023-05-15T10:30+02:00[Europe/Paris]");
+      expect(result.ok && result.value.toString()).toBe("2023-05-15T10:30+02:00[Europe/Paris]");
+    });
+
+    test.each([
+      { input: "", position: 0 },
+      { input: "abc", position: 0 },
+      { input: "??2004", position: 1 },
+      { input: "-", position: 1 },
+      { input: "2023-", position: 5 },
+      { input: "2023-5", position: 5 },
+      { input: "2023-W1", position: 5 },
+      { input: "2023-W12-", position: 9 },
+      { input: "2023-W12-8", position: 9 },
+      { input: "2023-W12-?3", position: 9 },
+      { input: "2004?06", position: 5 },
+      { input: "198X-05", position: 4 },
+      { input: "2023-05-1", position: 8 },
+      { input: "2023-05-15T", position: 11 },
+      { input: "2023-05-15T1", position: 11 },
+      { input: "2023-05-15T10:", position: 14 },
+      { input: "2023-05-15T10:30:45.5", position: 20 },
+      { input: "2023-05-15T10+2", position: 13 },
+      { input: "2023-05-15?T10", position: 11 },
+      { input: "2023-05-15T10??", position: 14 },
+      { input: "2023-05-15 10:30", position: 10 },
+      { input: "2023-05-15Z", position: 10 }
+    ])("should report the format of $input at position $position", ({ input, position }) => {
+      expect(FuzzyDate.safeParse(input)).toEqual({
+        ok: false,
+        issues: [{ code: 'format', message: `Invalid format at position ${position}`, field: undefined, position }]
+      });
+    });
+
+    test.each([
+      { input: "2023-13", code: 'range', field: 'month', position: 5 },
+      { input: "2023-37", code: 'range', field: 'month', position: 5 },
+      { input: "?2023-02-30", code: 'calendar', field: 'day', position: 9 },
+      { input: "2023-W53", code: 'calendar', field: 'week', position: 5 },
+      { input: "-300000-01", code: 'range', field: 'year', position: 0 },
+      { input: "2023-05-15T24:30", code: 'range', field: 'hour', position: 11 },
+      { input: "2023-05-15T10:60:45.500", code: 'range', field: 'minute', position: 14 },
+      { input: "2023-05-15T10:30:60", code: 'range', field: 'second', position: 17 },
+      { input: "2023-03-26T02:30+01:00[Europe/Paris]", code: 'calendar', field: 'hour', position: 11 },
+      { input: "2023-05-15T10:30[Nowhere/Land]", code: 'format', field: 'zone', position: 16 },
+      { input: "2023-05-15T10+24:00", code: 'format', field: 'zone', position: 13 },
+      { input: "2023-05-15T10+01:00[Europe/Paris]", code: 'format', field: 'zone', position: 13 },
+      { input: "1850±5Y", code: 'format', field: 'tolerance', position: 5 },
+      { input: "2023-05-15T10Z±PT", code: 'format', field: 'tolerance', position: 15 }
+    ])("should report the $field of $input at position $position", ({ input, code, field, position }) => {
+      const result = FuzzyDate.safeParse(input);
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.issues).toEqual([expect.objectContaining({ code, field, position })]);
+    });
+
+    test("should report every issue of a string at once", () => {
+      const result = FuzzyDate.safeParse("2023-05-15T25:61");
+      expect(!result.ok && result.issues.map(({ field, position }) => ({ field, position }))).toEqual([
+        { field: 'hour', position: 11 },
+        { field: 'minute', position: 14 }
+      ]);
+    });
+
+    test("should agree with fromString", () => {
+      for (const input of ["2023-05", "2023-13", "2023-5", "1850±P5Y", "2023-05-15T10+01:00[Europe/Paris]"]) {
+        const result = FuzzyDate.safeParse(input);
+        let thrown: unknown;
+        try {
+          FuzzyDate.fromString(input);
+        } catch (error) {
+          thrown = error;
+        }
+        expect(result.ok).toBe(thrown === undefined);
+      }
+    });
+  });
+
+  describe("errors", () => {
+    test("should carry the code, field and position of the issue", () => {
+      expect(() => new FuzzyDate({ year: 2023, month: 13 })).toThrow(expect.objectContaining({
+        name: 'FuzzyDateCalendarError', code: 'range', field: 'month', message: "FuzzyDate month is out of range"
+      }));
+      expect(() => new FuzzyDate({ year: 2023, day: 13 })).toThrow(
+        expect.objectContaining({ code: 'hierarchy', field: 'day' }));
+      expect(() => FuzzyDate.fromString("2023-05-1")).toThrow(
+        expect.objectContaining({ code: 'format', field: undefined, position: 8 }));
+    });
+
+    test("should keep their classes", () => {
+      expect(() => new FuzzyDate({ year: 2023, month: 13 })).toThrow(FuzzyDateCalendarError);
+      expect(() => new FuzzyDate({ year: 2023, day: 13 })).toThrow(FuzzyDateHierarchyError);
+      expect(() => FuzzyDate.fromString("2023-05-1")).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should leave the code out of errors that don't come from the input", () => {
+      expect(() => FuzzyDate.fromString("2023").plus({ days: 1 })).toThrow(expect.objectContaining({ code: undefined }));
+    });
+  });
+});
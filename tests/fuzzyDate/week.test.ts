@@ -0,0 +1,136 @@
+import { FuzzyDate, FuzzyDateCalendarError, FuzzyDateDeserializationError, FuzzyDateHierarchyError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate ISO week precision", () => {
+  describe("creation", () => {
+    test("should create week and weekday dates", () => {
+      expect(new FuzzyDate({ year: 2023, week: 12 }).getPrecision()).toBe('week');
+      expect(new FuzzyDate({ year: 2023, week: 12, weekday: 3 }).getPrecision()).toBe('day');
+      expect(new FuzzyDate({ year: 2023, week: 12, weekday: 3, hour: 10 }).getPrecision()).toBe('hour');
+    });
+
+    test("should accept week 53 only in long week-years", () => {
+      expect(() => new FuzzyDate({ year: 2020, week: 53 })).not.toThrow();
+      expect(() => new FuzzyDate({ year: 2026, week: 53 })).not.toThrow();
+      expect(() => new FuzzyDate({ year: 2021, week: 53 })).toThrow(FuzzyDateCalendarError);
+    });
+
+    test.each([
+      { week: 0 },
+      { week: 54 },
+      { week: 1.5 },
+      { week: 12, weekday: 0 },
+      { week: 12, weekday: 8 }
+    ])("should reject $week and $weekday off the calendar", options => {
+      expect(() => new FuzzyDate({ year: 2023, ...options })).toThrow(FuzzyDateCalendarError);
+    });
+
+    test.each([
+      { month: 3, week: 12 },
+      { week: 12, day: 22 },
+      { weekday: 3 },
+      { week: 12, hour: 10 }
+    ])("should reject mixed or skipped fields %o", options => {
+      expect(() => new FuzzyDate({ year: 2023, ...options })).toThrow(FuzzyDateHierarchyError);
+    });
+  });
+
+  describe("padding", () => {
+    test("should span Monday to Sunday", () => {
+      const week = new FuzzyDate({ year: 2023, week: 12 });
+      expect(week.getEarliestPaddingOptions()).toEqual({ year: 2023, month: 3, day: 20, hour: 0, minute: 0, second: 0, millisecond: 0 });
+      expect(week.getLatestPaddingOptions()).toEqual({ year: 2023, month: 3, day: 26, hour: 23, minute: 59, second: 59, millisecond: 999 });
+    });
+
+    test("should cross year boundaries following the week-year", () => {
+      const first = new FuzzyDate({ year: 2020, week: 1 });
+      expect(first.getEarliestPaddingOptions()).toMatchObject({ year: 2019, month: 12, day: 30 });
+      expect(first.getLatestPaddingOptions()).toMatchObject({ year: 2020, month: 1, day: 5 });
+
+      const last = new FuzzyDate({ year: 2020, week: 53 });
+      expect(last.getEarliestPaddingOptions()).toMatchObject({ year: 2020, month: 12, day: 28 });
+      expect(last.getLatestPaddingOptions()).toMatchObject({ year: 2021, month: 1, day: 3 });
+    });
+
+    test("should pad a weekday to its day", () => {
+      const wednesday = new FuzzyDate({ year: 2023, week: 12, weekday: 3 });
+      expect(wednesday.getEarliestPaddingOptions()).toMatchObject({ year: 2023, month: 3, day: 22, hour: 0 });
+      expect(wednesday.getLatestPaddingOptions()).toMatchObject({ year: 2023, month: 3, day: 22, hour: 23 });
+    });
+
+    test("should follow the zone of the date", () => {
+      const week = new FuzzyDate({ year: 2023, week: 12, zone: 'Europe/Paris' });
+      expect(week.getEarliestPaddingOptions()).toMatchObject({ day: 20, hour: 0, zone: 'Europe/Paris' });
+      // Clocks in Paris moved forward on Sunday, March 26, so the week lasted 167 hours
+      const { earliest, latest } = week.toEpochRange();
+      expect(latest + 1 - earliest).toBe(167 * 60 * 60 * 1000);
+    });
+  });
+
+  describe("comparison", () => {
+    test("should compare weeks with calendar dates", () => {
+      const week = new FuzzyDate({ year: 2023, week: 12 });
+      expect(week.isBefore(new FuzzyDate({ year: 2023, month: 3, day: 27 }))).toBe('yes');
+      expect(week.isSame(new FuzzyDate({ year: 2023, month: 3, day: 22 }))).toBe('maybe');
+      expect(week.overlaps(new FuzzyDate({ year: 2023, month: 3 }))).toBe('yes');
+      expect(FuzzyDate.relation(new FuzzyDate({ year: 2023, month: 3 }), week)).toBe('contains');
+    });
+
+    test("should sort weeks between months and days on ties", () => {
+      const month = new FuzzyDate({ year: 2023, month: 5 });
+      const week = new FuzzyDate({ year: 2023, week: 18 });
+      const day = new FuzzyDate({ year: 2023, month: 5, day: 1 });
+      expect([day, week, month].sort(FuzzyDate.compareByEarliest)).toEqual([month, week, day]);
+    });
+  });
+
+  describe("serialization", () => {
+    test.each([
+      { options: { year: 2023, week: 12 }, expected: "2023-W12" },
+      { options: { year: 2023, week: 2 }, expected: "2023-W02" },
+      { options: { year: 2023, week: 12, weekday: 3 }, expected: "2023-W12-3" },
+      { options: { year: 2023, week: 12, weekday: 3, hour: 10, minute: 30 }, expected: "2023-W12-3T10:30" },
+      { options: { year: 2023, week: 12, weekday: 3, hour: 10, zone: 'Europe/Paris' }, expected: "2023-W12-3T10+01:00[Europe/Paris]" },
+      { options: { year: -43, week: 11 }, expected: "-43-W11" }
+    ])("should round-trip $expected", ({ options, expected }) => {
+      const date = new FuzzyDate(options);
+      expect(date.toString()).toBe(expected);
+      expect(FuzzyDate.fromString(expected)).toEqual(date);
+    });
+
+    test.each(["2023-W1", "2023-W12-8", "2023-W12-03", "2023-W12T10", "2023-03-W12"])("should reject %s", input => {
+      expect(() => FuzzyDate.fromString(input)).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should reject weeks off the calendar", () => {
+      expect(() => FuzzyDate.fromString("2021-W53")).toThrow(FuzzyDateCalendarError);
+    });
+  });
+
+  describe("conversion and formatting", () => {
+    test("should read the ISO week of a native Date", () => {
+      const date = new Date(Date.UTC(2021, 0, 2, 12));
+      expect(FuzzyDate.fromDate(date, 'week', { zone: 'UTC' }).toString()).toBe("2020-W53");
+      expect(FuzzyDate.fromDate(date, 'day', { zone: 'UTC' }).toString()).toBe("2021-01-02");
+    });
+
+    test("should format a week as its span of days", () => {
+      // ICU surrounds the dash of a range with thin spaces
+      expect(new FuzzyDate({ year: 2023, week: 12 }).format({ locale: 'en-US' }).replace(/\s/g, ' '))
+        .toBe("Mar 20 – 26, 2023");
+      expect(new FuzzyDate({ year: 2020, week: 53 }).format({ locale: 'en-GB', style: 'long' }).replace(/\s/g, ' '))
+        .toBe("28 December 2020 – 3 January 2021");
+    });
+
+    test("should format a weekday as its calendar day", () => {
+      expect(new FuzzyDate({ year: 2023, week: 12, weekday: 3 }).format({ locale: 'en-US', style: 'full' }))
+        .toBe("Wednesday, March 22, 2023");
+    });
+
+    test("should format and parse week tokens", () => {
+      const date = new FuzzyDate({ year: 2023, week: 7, weekday: 3 });
+      expect(date.format("yyyy-'W'WW-E")).toBe("2023-W07-3");
+      expect(FuzzyDate.fromFormat("2023 W7", "yyyy 'W'W")).toEqual(new FuzzyDate({ year: 2023, week: 7 }));
+      expect(() => FuzzyDate.fromFormat("2023-03 W7", "yyyy-MM 'W'W")).toThrow(FuzzyDateHierarchyError);
+    });
+  });
+});
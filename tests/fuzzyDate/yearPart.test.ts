@@ -0,0 +1,123 @@
+import { FuzzyDate, FuzzyDateCalendarError, FuzzyDateHierarchyError } from "../../src/fuzzyDate";
+
+describe("FuzzyDate half and quarter precision", () => {
+  describe("creation", () => {
+    test("should create halves and quarters", () => {
+      expect(new FuzzyDate({ year: 2021, half: 1 }).getPrecision()).toBe('half');
+      expect(new FuzzyDate({ year: 2022, quarter: 3 }).getPrecision()).toBe('quarter');
+    });
+
+    test.each([
+      { half: 0 },
+      { half: 3 },
+      { quarter: 0 },
+      { quarter: 5 },
+      { quarter: 2.5 }
+    ])("should reject %o off the calendar", options => {
+      expect(() => new FuzzyDate({ year: 2022, ...options })).toThrow(FuzzyDateCalendarError);
+    });
+
+    test.each([
+      { half: 1, quarter: 1 },
+      { quarter: 3, month: 7 },
+      { half: 2, week: 30 },
+      { quarter: 1, day: 5 }
+    ])("should reject %o combined with other fields", options => {
+      expect(() => new FuzzyDate({ year: 2022, ...options })).toThrow(FuzzyDateHierarchyError);
+    });
+  });
+
+  describe("padding", () => {
+    test.each([
+      { options: { year: 2021, half: 1 }, start: { month: 1, day: 1 }, end: { month: 6, day: 30 } },
+      { options: { year: 2021, half: 2 }, start: { month: 7, day: 1 }, end: { month: 12, day: 31 } },
+      { options: { year: 2022, quarter: 1 }, start: { month: 1, day: 1 }, end: { month: 3, day: 31 } },
+      { options: { year: 2022, quarter: 2 }, start: { month: 4, day: 1 }, end: { month: 6, day: 30 } },
+      { options: { year: 2022, quarter: 3 }, start: { month: 7, day: 1 }, end: { month: 9, day: 30 } },
+      { options: { year: 2022, quarter: 4 }, start: { month: 10, day: 1 }, end: { month: 12, day: 31 } }
+    ])("should span the months of $options", ({ options, start, end }) => {
+      const date = new FuzzyDate(options);
+      expect(date.getEarliestPaddingOptions()).toEqual({ year: options.year, ...start, hour: 0, minute: 0, second: 0, millisecond: 0 });
+      expect(date.getLatestPaddingOptions()).toEqual({ year: options.year, ...end, hour: 23, minute: 59, second: 59, millisecond: 999 });
+    });
+
+    test("should keep working for BC years", () => {
+      const date = new FuzzyDate({ year: -43, quarter: 1 });
+      expect(date.getLatestPaddingOptions()).toMatchObject({ year: -43, month: 3, day: 31 });
+    });
+  });
+
+  describe("comparison", () => {
+    test("should nest months in quarters and quarters in halves", () => {
+      const half = new FuzzyDate({ year: 2022, half: 2 });
+      const quarter = new FuzzyDate({ year: 2022, quarter: 3 });
+      const month = new FuzzyDate({ year: 2022, month: 9 });
+      expect(FuzzyDate.relation(half, quarter)).toBe('startedBy');
+      expect(FuzzyDate.relation(quarter, month)).toBe('finishedBy');
+      expect(quarter.isBefore(new FuzzyDate({ year: 2022, quarter: 4 }))).toBe('yes');
+    });
+
+    test("should sort halves and quarters between years and months on ties", () => {
+      const dates = [
+        new FuzzyDate({ year: 2022, month: 1 }),
+        new FuzzyDate({ year: 2022, quarter: 1 }),
+        new FuzzyDate({ year: 2022 }),
+        new FuzzyDate({ year: 2022, half: 1 })
+      ];
+      expect(dates.sort(FuzzyDate.compareByEarliest).map(date => date.getPrecision()))
+        .toEqual(['year', 'half', 'quarter', 'month']);
+    });
+  });
+
+  describe("serialization", () => {
+    test.each([
+      { options: { year: 2021, half: 1 }, expected: "2021-40" },
+      { options: { year: 2021, half: 2 }, expected: "2021-41" },
+      { options: { year: 2022, quarter: 1 }, expected: "2022-33" },
+      { options: { year: 2022, quarter: 3 }, expected: "2022-35" },
+      { options: { year: 2022, quarter: 4 }, expected: "2022-36" },
+      { options: { year: -43, quarter: 2 }, expected: "-43-34" }
+    ])("should round-trip $expected as an EDTF sub-year grouping", ({ options, expected }) => {
+      const date = new FuzzyDate(options);
+      expect(date.toString()).toBe(expected);
+      expect(FuzzyDate.fromString(expected)).toEqual(date);
+    });
+
+    test.each(["2022-37", "2022-42", "2022-35-01"])("should reject %s", input => {
+      expect(() => FuzzyDate.fromString(input)).toThrow(FuzzyDateCalendarError);
+    });
+  });
+
+  describe("conversion, formatting and parsing", () => {
+    test("should read the half or quarter of a native Date", () => {
+      const date = new Date(Date.UTC(2022, 7, 15));
+      expect(FuzzyDate.fromDate(date, 'quarter', { zone: 'UTC' }).quarter).toBe(3);
+      expect(FuzzyDate.fromDate(date, 'half', { zone: 'UTC' }).half).toBe(2);
+    });
+
+    test("should format as the span of months", () => {
+      // ICU surrounds the dash of a range with thin spaces
+      expect(new FuzzyDate({ year: 2022, quarter: 3 }).format({ locale: 'en-US' }).replace(/\s/g, ' ')).toBe("Jul – Sep 2022");
+      expect(new FuzzyDate({ year: 2021, half: 1 }).format({ locale: 'en-GB', style: 'long' }).replace(/\s/g, ' '))
+        .toBe("January – June 2021");
+    });
+
+    test("should format and parse the quarter token", () => {
+      expect(new FuzzyDate({ year: 2022, quarter: 3 }).format("'Q'Q yyyy")).toBe("Q3 2022");
+      expect(FuzzyDate.fromFormat("2022-Q3", "yyyy-'Q'Q")).toEqual(new FuzzyDate({ year: 2022, quarter: 3 }));
+    });
+
+    test.each([
+      { input: "Q3 2022", expected: "2022-35" },
+      { input: "2022 Q3", expected: "2022-35" },
+      { input: "2022-q4", expected: "2022-36" },
+      { input: "H1 2021", expected: "2021-40" }
+    ])("should read \"$input\" as a person would write it", ({ input, expected }) => {
+      expect(FuzzyDate.parseHuman(input).value.toString()).toBe(expected);
+    });
+
+    test("should not read quarters that don't exist", () => {
+      expect(() => FuzzyDate.parseHuman("Q5 2022")).toThrow();
+    });
+  });
+});
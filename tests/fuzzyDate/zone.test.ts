@@ -0,0 +1,203 @@
+import {
+  FuzzyDate,
+  FuzzyDateCalendarError,
+  FuzzyDateDeserializationError,
+  FuzzyDateZoneError
+} from "../../src/fuzzyDate";
+
+describe("FuzzyDate zone", () => {
+  describe("creation", () => {
+    test.each([
+      { zone: undefined, expected: undefined },
+      { zone: 'floating', expected: undefined },
+      { zone: 'Z', expected: 'UTC' },
+      { zone: 'UTC', expected: 'UTC' },
+      { zone: '+00:00', expected: 'UTC' },
+      { zone: '+05:30', expected: '+05:30' },
+      { zone: '+0530', expected: '+05:30' },
+      { zone: '-08', expected: '-08:00' },
+      { zone: 'Europe/Paris', expected: 'Europe/Paris' },
+      { zone: 'europe/paris', expected: 'Europe/Paris' },
+      { zone: 'utc', expected: 'UTC' },
+      { zone: 'Etc/UTC', expected: 'UTC' }
+    ])("should normalize zone $zone to $expected", ({ zone, expected }) => {
+      expect(new FuzzyDate({ year: 2023, zone }).zone).toBe(expected);
+    });
+
+    test("should treat the spellings of a zone as the same zone", () => {
+      const typed = new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10, zone: 'europe/paris' });
+      const canonical = new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10, zone: 'Europe/Paris' });
+      expect(typed.toString()).toBe("2023-05-15T10+02:00[Europe/Paris]");
+      expect(typed.equals(canonical)).toBe(true);
+      expect(typed.hashKey()).toBe(canonical.hashKey());
+      expect(new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10, zone: 'utc' }).toString()).toBe("2023-05-15T10Z");
+    });
+
+    test.each(['Mars/Olympus', '+24:00', '+05:60', 'local', ''])("should throw FuzzyDateZoneError for zone \"%s\"", (zone) => {
+      expect(() => new FuzzyDate({ year: 2023, zone })).toThrow(FuzzyDateZoneError);
+    });
+
+    test("should reject wall-clock times skipped by a DST transition", () => {
+      expect(() => new FuzzyDate({ year: 2023, month: 3, day: 12, hour: 2, zone: 'America/New_York' }))
+        .toThrow(FuzzyDateCalendarError);
+      expect(() => new FuzzyDate({ year: 2023, month: 3, day: 12, hour: 2, minute: 30, zone: 'America/New_York' }))
+        .toThrow(FuzzyDateCalendarError);
+    });
+
+    test("should accept the same wall-clock times when floating or at a fixed offset", () => {
+      expect(() => new FuzzyDate({ year: 2023, month: 3, day: 12, hour: 2 })).not.toThrow();
+      expect(() => new FuzzyDate({ year: 2023, month: 3, day: 12, hour: 2, zone: '-05:00' })).not.toThrow();
+    });
+
+    test("should accept a day containing a DST transition", () => {
+      expect(() => new FuzzyDate({ year: 2023, month: 3, day: 12, zone: 'America/New_York' })).not.toThrow();
+    });
+  });
+
+  describe("padding", () => {
+    test("should include the zone in padding options", () => {
+      const date = new FuzzyDate({ year: 2023, month: 5, zone: 'Europe/Paris' });
+
+      expect(date.getEarliestPaddingOptions()).toEqual({
+        year: 2023, month: 5, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0, zone: 'Europe/Paris'
+      });
+      expect(date.getLatestPaddingOptions()).toEqual({
+        year: 2023, month: 5, day: 31, hour: 23, minute: 59, second: 59, millisecond: 999, zone: 'Europe/Paris'
+      });
+    });
+
+    test("should not depend on the zone of the process for floating dates", () => {
+      const defaultZone = process.env.TZ;
+      process.env.TZ = 'America/New_York';
+
+      try {
+        const date = new FuzzyDate({ year: 2023, month: 3, day: 12, hour: 2 });
+        expect(date.getEarliestPaddingOptions()).toEqual({
+          year: 2023, month: 3, day: 12, hour: 2, minute: 0, second: 0, millisecond: 0
+        });
+        expect(date.getLatestPaddingOptions()).toEqual({
+          year: 2023, month: 3, day: 12, hour: 2, minute: 59, second: 59, millisecond: 999
+        });
+      } finally {
+        if (defaultZone === undefined) {
+          delete process.env.TZ;
+        } else {
+          process.env.TZ = defaultZone;
+        }
+      }
+    });
+
+    test("should cover both occurrences of an hour repeated by a DST transition", () => {
+      const date = new FuzzyDate({ year: 2023, month: 11, day: 5, hour: 1, zone: 'America/New_York' });
+
+      expect(date.getLatestPaddingOptions()).toEqual({
+        year: 2023, month: 11, day: 5, hour: 1, minute: 59, second: 59, millisecond: 999, zone: 'America/New_York'
+      });
+      expect(FuzzyDate.durationBetween(date, date).max.milliseconds).toBe(2 * 60 * 60 * 1000 - 1);
+    });
+
+    test("should start a day at the first existing time when midnight is skipped", () => {
+      // Chile moved its clocks from 00:00 to 01:00 on September 11, 2022
+      const date = new FuzzyDate({ year: 2022, month: 9, day: 11, zone: 'America/Santiago' });
+
+      expect(date.getEarliestPaddingOptions()).toEqual({
+        year: 2022, month: 9, day: 11, hour: 1, minute: 0, second: 0, millisecond: 0, zone: 'America/Santiago'
+      });
+    });
+  });
+
+  describe("comparison", () => {
+    test("should compare dates in different zones by their moments", () => {
+      const paris = FuzzyDate.fromString("2023-05-15T10+02:00");
+      const utc = FuzzyDate.fromString("2023-05-15T08Z");
+      const tokyo = FuzzyDate.fromString("2023-05-15T10+09:00");
+
+      expect(FuzzyDate.relation(paris, utc)).toBe('equals');
+      expect(tokyo.isBefore(paris)).toBe('yes');
+    });
+
+    test("should read floating dates as UTC", () => {
+      const floating = FuzzyDate.fromString("2023-05-15T08");
+      const utc = FuzzyDate.fromString("2023-05-15T08Z");
+
+      expect(FuzzyDate.relation(floating, utc)).toBe('equals');
+    });
+  });
+
+  describe("serialization", () => {
+    test.each([
+      { options: { year: 2023, month: 5, day: 15, hour: 10, minute: 30, zone: 'UTC' }, expected: "2023-05-15T10:30Z" },
+      { options: { year: 2023, month: 5, day: 15, hour: 10, zone: '+05:30' }, expected: "2023-05-15T10+05:30" },
+      { options: { year: 2023, month: 5, day: 15, hour: 10, minute: 30, second: 45, millisecond: 500, zone: '-08:00' }, expected: "2023-05-15T10:30:45.500-08:00" },
+      { options: { year: 2023, month: 5, day: 15, hour: 10, minute: 30, zone: 'Europe/Paris' }, expected: "2023-05-15T10:30+02:00[Europe/Paris]" },
+      { options: { year: 2023, month: 1, day: 15, hour: 10, zone: 'Europe/London' }, expected: "2023-01-15T10+00:00[Europe/London]" },
+      { options: { year: 2023, month: 1, day: 15, hour: 10, zone: 'America/St_Johns' }, expected: "2023-01-15T10-03:30[America/St_Johns]" },
+      { options: { year: 2023, month: 5, day: 15, zone: 'Europe/Paris' }, expected: "2023-05-15" }
+    ])("should serialize $expected", ({ options, expected }) => {
+      expect(new FuzzyDate(options).toString()).toBe(expected);
+    });
+
+    test.each([
+      "2023-05-15T10:30Z",
+      "2023-05-15T10+05:30",
+      "-500-03-15T12:00:00.000-01:00",
+      "2023-05-15T10:30+02:00[Europe/Paris]",
+      "2023-05-15T10:30:45.500-04:00[America/New_York]"
+    ])("should round-trip \"%s\"", (dateString) => {
+      expect(FuzzyDate.fromString(dateString).toString()).toBe(dateString);
+    });
+
+    test("should parse zones", () => {
+      expect(FuzzyDate.fromString("2023-05-15T10Z").zone).toBe('UTC');
+      expect(FuzzyDate.fromString("2023-05-15T10-08:00").zone).toBe('-08:00');
+      expect(FuzzyDate.fromString("2023-05-15T10[Asia/Tokyo]").zone).toBe('Asia/Tokyo');
+      expect(FuzzyDate.fromString("2023-05-15T10").zone).toBeUndefined();
+    });
+
+    test("should throw FuzzyDateDeserializationError for a time zone after Z", () => {
+      expect(() => FuzzyDate.fromString("2023-01-15T10Z[Europe/London]")).toThrow("Invalid format at position 14");
+    });
+
+    test("should throw FuzzyDateDeserializationError for zones on dates without hours", () => {
+      expect(() => FuzzyDate.fromString("2023-05-15Z")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDate.fromString("2023-05+02:00")).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test("should throw FuzzyDateDeserializationError when the offset doesn't match the zone", () => {
+      expect(() => FuzzyDate.fromString("2023-05-15T10+01:00[Europe/Paris]")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDate.fromString("2023-05-15T10+01:00[Europe/Paris]")).toThrow("Inconsistent offset");
+    });
+
+    test.each([
+      { dateString: "2023-10-29T02:30+02:00[Europe/Paris]", earliest: "2023-10-29T00:30:00.000Z" },
+      { dateString: "2023-10-29T02:30+01:00[Europe/Paris]", earliest: "2023-10-29T01:30:00.000Z" }
+    ])("should read the occurrence of a repeated time from its offset in \"$dateString\"", ({ dateString, earliest }) => {
+      const date = FuzzyDate.fromString(dateString);
+      expect(date.toString()).toBe(dateString);
+      expect(new Date(date.toEpochRange().earliest).toISOString()).toBe(earliest);
+      expect(date.toEpochRange().latest - date.toEpochRange().earliest).toBe(60 * 1000 - 1);
+      expect(FuzzyDate.fromString(date.toString()).toEpochRange()).toEqual(date.toEpochRange());
+    });
+
+    test("should keep the second occurrence of a repeated time through truncation and conversion", () => {
+      const date = FuzzyDate.fromDate(new Date("2023-10-29T01:30:00Z"), 'minute', { zone: 'Europe/Paris' });
+      expect(date.toString()).toBe("2023-10-29T02:30+01:00[Europe/Paris]");
+      expect(date.offset).toBe(60);
+      expect(date.truncateTo('hour').toString()).toBe("2023-10-29T02+01:00[Europe/Paris]");
+      expect(date.parent()?.contains(date)).toBe(true);
+      expect(date.equals(FuzzyDate.fromString("2023-10-29T02:30+02:00[Europe/Paris]"))).toBe(false);
+    });
+
+    test("should leave out offsets that don't pick a second occurrence", () => {
+      const options = { year: 2023, month: 10, day: 29, hour: 2, minute: 30, zone: 'Europe/Paris' };
+      expect(new FuzzyDate({ ...options, offset: 120 }).offset).toBeUndefined();
+      expect(new FuzzyDate({ ...options, offset: 180 }).toString()).toBe("2023-10-29T02:30+02:00[Europe/Paris]");
+      expect(new FuzzyDate({ ...options, hour: 10, offset: 60 }).offset).toBeUndefined();
+      expect(new FuzzyDate({ ...options, zone: '+01:00', offset: 120 }).offset).toBeUndefined();
+    });
+
+    test("should throw FuzzyDateZoneError for unknown zones", () => {
+      expect(() => FuzzyDate.fromString("2023-05-15T10[Mars/Olympus]")).toThrow(FuzzyDateZoneError);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { FuzzyDate, FuzzyDateRangeError } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDateRange creation", () => {
+  test("should create a closed range", () => {
+    const start = new FuzzyDate({ year: 2023, month: 3 });
+    const end = new FuzzyDate({ year: 2024 });
+    const range = new FuzzyDateRange({ start, end });
+
+    expect(range.start).toBe(start);
+    expect(range.end).toBe(end);
+  });
+
+  test("should create open-ended ranges", () => {
+    const date = new FuzzyDate({ year: 2023 });
+
+    expect(new FuzzyDateRange({ end: date }).start).toBeUndefined();
+    expect(new FuzzyDateRange({ start: date }).end).toBeUndefined();
+  });
+
+  test("should allow a start that is only possibly after the end", () => {
+    const start = new FuzzyDate({ year: 2023 });
+    const end = new FuzzyDate({ year: 2023, month: 5 });
+
+    expect(() => new FuzzyDateRange({ start, end })).not.toThrow();
+  });
+
+  test("should allow start and end to be the same date", () => {
+    const date = new FuzzyDate({ year: 2023, month: 5, day: 15, hour: 10, minute: 30, second: 45, millisecond: 500 });
+
+    expect(() => new FuzzyDateRange({ start: date, end: date })).not.toThrow();
+  });
+
+  test("should throw FuzzyDateRangeError when start is definitely after end", () => {
+    const start = new FuzzyDate({ year: 2024 });
+    const end = new FuzzyDate({ year: 2023, month: 12 });
+
+    expect(() => new FuzzyDateRange({ start, end })).toThrow(FuzzyDateRangeError);
+    expect(() => new FuzzyDateRange({ start, end })).toThrow('FuzzyDateRange start must not be after its end');
+    expect(() => new FuzzyDateRange({ start, end })).toThrow(expect.objectContaining({ code: 'range', name: 'FuzzyDateRangeError' }));
+  });
+});
+
+describe("FuzzyDateRange padding", () => {
+  test("should pad from the start of the start to the end of the end", () => {
+    const range = new FuzzyDateRange({
+      start: new FuzzyDate({ year: 2023, month: 3 }),
+      end: new FuzzyDate({ year: 2024 })
+    });
+
+    expect(range.getEarliestPaddingOptions()).toEqual({
+      year: 2023, month: 3, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0
+    });
+    expect(range.getLatestPaddingOptions()).toEqual({
+      year: 2024, month: 12, day: 31, hour: 23, minute: 59, second: 59, millisecond: 999
+    });
+  });
+
+  test("should return undefined for open sides", () => {
+    const date = new FuzzyDate({ year: 2023 });
+
+    expect(new FuzzyDateRange({ end: date }).getEarliestPaddingOptions()).toBeUndefined();
+    expect(new FuzzyDateRange({ start: date }).getLatestPaddingOptions()).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { FuzzyDate, FuzzyDateDeserializationError, FuzzyDateCalendarError, FuzzyDateRangeError } from "../../src/fuzzyDate";
+import { FuzzyDateRange } from "../../src/fuzzyDateRange";
+
+describe("FuzzyDateRange serialization", () => {
+  describe("toString", () => {
+    test("should serialize a closed range", () => {
+      const range = new FuzzyDateRange({
+        start: new FuzzyDate({ year: 2023, month: 3 }),
+        end: new FuzzyDate({ year: 2024 })
+      });
+      expect(range.toString()).toBe("2023-03/2024");
+    });
+
+    test("should serialize an open start", () => {
+      const range = new FuzzyDateRange({ end: new FuzzyDate({ year: 2024, month: 5 }) });
+      expect(range.toString()).toBe("../2024-05");
+    });
+
+    test("should serialize an open end", () => {
+      const range = new FuzzyDateRange({ start: new FuzzyDate({ year: 2023 }) });
+      expect(range.toString()).toBe("2023/..");
+    });
+
+    test("should serialize BC dates", () => {
+      const range = new FuzzyDateRange({
+        start: new FuzzyDate({ year: -500, month: 3 }),
+        end: new FuzzyDate({ year: -44 })
+      });
+      expect(range.toString()).toBe("-500-03/-44");
+    });
+  });
+
+  describe("fromString", () => {
+    test("should parse a closed range", () => {
+      const range = FuzzyDateRange.fromString("2023-03/2024");
+      expect(range.start?.year).toBe(2023);
+      expect(range.start?.month).toBe(3);
+      expect(range.end?.year).toBe(2024);
+      expect(range.end?.month).toBeUndefined();
+    });
+
+    test("should parse open sides", () => {
+      expect(FuzzyDateRange.fromString("../2024-05").start).toBeUndefined();
+      expect(FuzzyDateRange.fromString("2023/..").end).toBeUndefined();
+    });
+
+    test.each([
+      "2023-03/2024",
+      "../2024-05",
+      "2023/..",
+      "-100000-01-01T00:00:00.000/99999-12-31T23:59:59.999",
+      "2023-05-15T10:30/2023-05-15T10:30:45.500",
+      "2023-05-15T10+02:00[Europe/Paris]/2023-05-15T12-04:00[America/New_York]",
+      "../2023-05-15T10:30+09:00[Asia/Tokyo]"
+    ])("should round-trip \"%s\"", (rangeString) => {
+      expect(FuzzyDateRange.fromString(rangeString).toString()).toBe(rangeString);
+    });
+
+    test("should round-trip a range whose start has an IANA time zone", () => {
+      const range = new FuzzyDateRange({ start: FuzzyDate.fromString("2023-05-15T10+02:00[Europe/Paris]") });
+      expect(range.toString()).toBe("2023-05-15T10+02:00[Europe/Paris]/..");
+      expect(FuzzyDateRange.fromString(range.toString()).start?.equals(range.start as FuzzyDate)).toBe(true);
+    });
+
+    test("should throw FuzzyDateDeserializationError for invalid formats", () => {
+      expect(() => FuzzyDateRange.fromString("2023")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDateRange.fromString("2023/2024/2025")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDateRange.fromString("2023-05-15T10+02:00[Europe/Paris]")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDateRange.fromString("2023/")).toThrow(FuzzyDateDeserializationError);
+      expect(() => FuzzyDateRange.fromString("invalid/2024")).toThrow("Invalid format");
+    });
+
+    test("should throw FuzzyDateCalendarError for invalid dates", () => {
+      expect(() => FuzzyDateRange.fromString("2023-02-30/2024")).toThrow(FuzzyDateCalendarError);
+    });
+
+    test("should throw FuzzyDateRangeError when start is after end", () => {
+      expect(() => FuzzyDateRange.fromString("2024/2023")).toThrow(FuzzyDateRangeError);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { FuzzyDate, FuzzyDateDeserializationError } from "../../src/fuzzyDate";
+import { reviveFuzzyDates } from "../../src/json";
+
+describe("reviveFuzzyDates", () => {
+  const payload = {
+    name: "Ada Lovelace",
+    born: "1815-12-10",
+    code: "1815",
+    events: [
+      { title: "Analytical Engine notes", date: "1843" },
+      { title: "Unknown", date: null }
+    ],
+    places: { london: "181X", ockham: "1835-07~" }
+  };
+
+  test("should revive the strings at the paths", () => {
+    const revived = reviveFuzzyDates<typeof payload & { born: FuzzyDate }>(payload, ["born"]);
+    expect(revived.born).toBeInstanceOf(FuzzyDate);
+    expect(revived.born.toString()).toBe("1815-12-10");
+    expect(revived.code).toBe("1815");
+  });
+
+  test("should go through arrays and objects with wildcards", () => {
+    const revived = reviveFuzzyDates<any>(payload, ["events.*.date", "places.*"]);
+    expect(revived.events[0].date.toString()).toBe("1843");
+    expect(revived.events[1].date).toBeNull();
+    expect(revived.places.london.getPrecision()).toBe('decade');
+    expect(revived.places.ockham.qualifiers).toEqual({ year: 'approximate', month: 'approximate' });
+  });
+
+  test("should go through array indexes", () => {
+    const revived = reviveFuzzyDates<any>(payload, ["events.1.date", "events.0.date"]);
+    expect(revived.events[0].date).toBeInstanceOf(FuzzyDate);
+  });
+
+  test("should leave the value itself unchanged", () => {
+    reviveFuzzyDates(payload, ["born", "events.*.date"]);
+    expect(payload.born).toBe("1815-12-10");
+    expect(payload.events[0].date).toBe("1843");
+  });
+
+  test.each([
+    { paths: ["died"] },
+    { paths: ["name.first"] },
+    { paths: ["events.title.date"] },
+    { paths: ["toString"] },
+    { paths: ["born", "born.year"] }
+  ])("should skip paths that lead nowhere, such as $paths", ({ paths }) => {
+    const revived = reviveFuzzyDates<any>(payload, paths);
+    expect(revived.name).toBe("Ada Lovelace");
+    expect(Object.keys(revived)).toEqual(Object.keys(payload));
+  });
+
+  test("should revive the elements of an array at the root", () => {
+    expect(reviveFuzzyDates(["2023"], [])).toEqual(["2023"]);
+    expect(reviveFuzzyDates<FuzzyDate[]>(["2023", "2024"], ["*"]).map(date => date.getPrecision())).toEqual(['year', 'year']);
+  });
+
+  test("should reject invalid strings at the paths", () => {
+    expect(() => reviveFuzzyDates(payload, ["name"])).toThrow(FuzzyDateDeserializationError);
+  });
+});
@@ -0,0 +1,60 @@
+import { FuzzyDate, FuzzyDateDeserializationError } from "../../src/fuzzyDate";
+import { FUZZY_DATE_JSON_SCHEMA } from "../../src/json";
+
+describe("FUZZY_DATE_JSON_SCHEMA", () => {
+  const pattern = new RegExp(FUZZY_DATE_JSON_SCHEMA.pattern);
+
+  /**
+   * Whether fromString reads the string, or only rejects it for a reason the pattern can't check
+   */
+  const isReadable = (input: string) => {
+    try {
+      FuzzyDate.fromString(input);
+      return true;
+    } catch (error) {
+      return !(error instanceof FuzzyDateDeserializationError) || error.field === 'zone';
+    }
+  };
+
+  test("should describe a string in the fuzzy-date format", () => {
+    expect(FUZZY_DATE_JSON_SCHEMA.type).toBe('string');
+    expect(FUZZY_DATE_JSON_SCHEMA.format).toBe('fuzzy-date');
+    expect(Object.isFrozen(FUZZY_DATE_JSON_SCHEMA)).toBe(true);
+  });
+
+  test("should leave out lookarounds, which RE2 doesn't support", () => {
+    expect(FUZZY_DATE_JSON_SCHEMA.pattern).not.toMatch(/\(\?<?[=!]/);
+  });
+
+  test.each([
+    "2023", "-43", "0", "12345", "1XXX", "18XX", "198X", "-4X",
+    "2023-05", "2023-05-15", "2023-05-15T10", "2023-05-15T10:30", "2023-05-15T10:30:45", "2023-05-15T10:30:45.500",
+    "2023-05-15T10:30Z", "2023-05-15T10:30+05:30", "2023-05-15T10:30+02:00[Europe/Paris]", "2023-05-15T10[Europe/Paris]",
+    "2021-40", "2022-36", "2023-W12", "2023-W12-3", "2023-W12-3T10:30Z",
+    "1850?", "1920-03~", "2004-06-11%", "?2004-06-~11", "2004-?06-11", "198X~", "?-43-05", "2004?-06-11",
+    "2004-06-11T10:30+02:00[Europe/Paris]?", "2004-06-11T10~±PT1H", "1850±P5Y", "1920-03~±P1M", "2023-03-22T10:30Z±PT1H30M",
+    "2023-03-22±P1DT2.500S", "2023±P1Y2M3W4D", "2023±PT3S", "2023±P1M2D", "2023±P1WT1M", "2023-05-15T10±PT1M1.500S",
+    "2023-05-15T10[UTC]", "2023-05-15T10[+02:00]", "2023-05-15T10+02:00[+02:00]", "2023-05-15T10Z±PT1H",
+    "2023?-W12", "~2023-41", "2004-?13", "2004-~37", "2004-?42-~05"
+  ])("should accept %s", input => {
+    expect(isReadable(input)).toBe(true);
+    expect(pattern.test(input)).toBe(true);
+  });
+
+  test.each([
+    // Not syntactically valid, so the pattern must reject them too
+    "", "abc", "2023-5", "2023-05-1", "2023-05-15T1", "2023-05-15T10:3", "2023-05-15T10:30:45.5", "2023-05-15 10:30",
+    "2023-05T10", "2023T10", "198XX", "19XXX", "198X-05", "X198", "2023-W1", "2023-W12-8", "2023-W12-03",
+    "2023-05-15T10+2", "2023-05-15T10:30Z[", "??2004", "2004-06-11?T10", "2004-06-11T10??", "2004-06-11?X", "2004?06", "2023-05-15Z",
+    "1850±5Y", "1850±P", "1850±PT", "1850±P5YT", "1850±P5Y±P1Y", "1850±P-5Y", "1850±", "1850±P1.5Y", " 2023", "2023 ",
+    "1850±P1D1Y", "1850±PT1S1M", "1850±P1Y1Y", "1850±PT1.5S", "1850±P1H",
+    "2023-05-15T10Z[UTC]", "2023-05-15T10Z[Europe/Paris]", "2023-05-15T10[Europe/Paris]+02:00",
+    "2023-05-15T10[Europe/Paris][UTC]", "2023-05-15T10[]", "2023-05-15T10+02:00Z",
+    "2023-W12?", "2023-~W12", "2023-W12-?3", "2023-W12-3~", "2023-W12-3T10Z?", "2023-33?", "2023-?33", "2023-40~", "?2022-%35",
+    // Syntactically valid, but rejected by the calendar, so the pattern lets them through
+    "2023-13", "2023-02-30", "2023-05-15T25", "2023-W54", "2023-05-15T10:30[Nowhere/Land]",
+    "2023-05-15T10+01:00[Europe/Paris]"
+  ])("should agree with fromString on %s", input => {
+    expect(pattern.test(input)).toBe(isReadable(input));
+  });
+});
@@ -0,0 +1,63 @@
+import initSqlJs, { Database } from "sql.js";
+import { FuzzyDate } from "../../src/fuzzyDate";
+import {
+  SqlWhereClause,
+  toSqlBounds,
+  whereDefinitelyBefore,
+  whereDefinitelyWithin,
+  wherePossiblyOverlaps
+} from "../../src/sql";
+
+describe("SQL WHERE clauses on SQLite", () => {
+  const rows = [
+    "-500", "1850±P5Y", "199X", "2022-12-31T23:59:59.999", "2023", "2023-W01", "2023-33", "2023-05",
+    "2023-05-15", "2023-05-15T10+02:00[Europe/Paris]", "2023-05-31T23:59:59.999Z", "2023-06-01", "2024", "99999"
+  ].map(value => FuzzyDate.fromString(value));
+
+  let database: Database;
+
+  beforeAll(async () => {
+    const SQL = await initSqlJs();
+    database = new SQL.Database();
+    database.run('CREATE TABLE events (fuzzy_date TEXT NOT NULL, earliest INTEGER NOT NULL, latest INTEGER NOT NULL)');
+    for (const date of rows) {
+      const { earliest, latest } = toSqlBounds(date, 'sqlite');
+      database.run('INSERT INTO events VALUES (?, ?, ?)', [date.toString(), earliest, latest]);
+    }
+  });
+
+  afterAll(() => {
+    database.close();
+  });
+
+  const select = (clause: SqlWhereClause): string[] => {
+    const statement = database.prepare(`SELECT fuzzy_date FROM events WHERE ${clause.sql} ORDER BY rowid`);
+    statement.bind(clause.params);
+    const selected: string[] = [];
+    while (statement.step()) {
+      selected.push(statement.get()[0] as string);
+    }
+    statement.free();
+    return selected;
+  };
+
+  const filter = (predicate: (date: FuzzyDate) => boolean) => rows.filter(predicate).map(date => date.toString());
+
+  test.each(["2023", "2023-05", "2023-W01", "2023-05-15", "199X", "1850"])("should match the same rows as FuzzyDate for %s", value => {
+    const target = FuzzyDate.fromString(value);
+
+    expect(select(whereDefinitelyWithin(target, { dialect: 'sqlite' }))).toEqual(filter(date => target.contains(date)));
+    expect(select(wherePossiblyOverlaps(target, { dialect: 'sqlite' }))).toEqual(filter(date => date.overlaps(target) === 'yes'));
+    expect(select(whereDefinitelyBefore(target, { dialect: 'sqlite' }))).toEqual(filter(date => date.isBefore(target) === 'yes'));
+  });
+
+  test("should find the dates within May 2023", () => {
+    expect(select(whereDefinitelyWithin(FuzzyDate.fromString("2023-05"), { dialect: 'sqlite' })))
+      .toEqual(["2023-05", "2023-05-15", "2023-05-15T10+02:00[Europe/Paris]", "2023-05-31T23:59:59.999Z"]);
+  });
+
+  test("should qualify the columns by their table", () => {
+    const clause = whereDefinitelyBefore(FuzzyDate.fromString("1900"), { dialect: 'sqlite', latest: 'events.latest' });
+    expect(select(clause)).toEqual(["-500", "1850±P5Y"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { FuzzyDate, FuzzyDateDeserializationError, FuzzyDateError } from "../../src/fuzzyDate";
+import { fromTsRange, toSqlBounds, toTsRange } from "../../src/sql";
+
+describe("tsrange", () => {
+  const date = (value: string) => FuzzyDate.fromString(value);
+
+  describe("toTsRange", () => {
+    test.each([
+      { date: "2023-05", expected: '["2023-05-01 00:00:00.000","2023-06-01 00:00:00.000")' },
+      { date: "2023-05-15T10:30:45.500", expected: '["2023-05-15 10:30:45.500","2023-05-15 10:30:45.501")' },
+      { date: "2023-05-15T10+02:00[Europe/Paris]", expected: '["2023-05-15 08:00:00.000","2023-05-15 09:00:00.000")' },
+      { date: "1850±P5Y", expected: '["1845-01-01 00:00:00.000","1856-01-01 00:00:00.000")' },
+      { date: "-43", expected: '["0044-01-01 00:00:00.000 BC","0043-01-01 00:00:00.000 BC")' },
+      { date: "0", expected: '["0001-01-01 00:00:00.000 BC","0001-01-01 00:00:00.000")' },
+      { date: "99999", expected: '["99999-01-01 00:00:00.000","100000-01-01 00:00:00.000")' },
+      { date: "-4713-11-24", expected: '["4714-11-24 00:00:00.000 BC","4714-11-25 00:00:00.000 BC")' }
+    ])("should write $date as $expected", ({ date: value, expected }) => {
+      expect(toTsRange(date(value))).toBe(expected);
+    });
+
+    test.each(["-4713-11-23T23:59:59.999", "-4713-11", "-100000", "-4713-11-24±PT1S"])(
+      "should reject %s, which starts before the first PostgreSQL timestamp",
+      value => {
+        expect(() => toTsRange(date(value))).toThrow(FuzzyDateError);
+        expect(() => toSqlBounds(date(value), 'postgres')).toThrow(expect.objectContaining({ code: 'range' }));
+        expect(toSqlBounds(date(value), 'sqlite').earliest).toBe(date(value).toEpochRange().earliest);
+      }
+    );
+  });
+
+  describe("fromTsRange", () => {
+    test.each([
+      "2XXX", "198X", "-4X", "2023", "2021-40", "2022-35", "2023-05", "2023-W20", "2023-05-15",
+      "2023-05-15T10", "2023-05-15T10:30", "2023-05-15T10:30:45", "2023-05-15T10:30:45.500", "-4713-11-24", "99999"
+    ])("should read back %s", value => {
+      expect(fromTsRange(toTsRange(date(value))).toString()).toBe(value);
+    });
+
+    test("should read the timestamps as UTC into the zone of the date", () => {
+      const paris = new FuzzyDate({ year: 2023, month: 5, day: 15, zone: 'Europe/Paris' });
+      const literal = toTsRange(paris);
+      expect(literal).toBe('["2023-05-14 22:00:00.000","2023-05-15 22:00:00.000")');
+      expect(fromTsRange(literal, { zone: 'Europe/Paris' }).equals(paris)).toBe(true);
+      expect(() => fromTsRange(literal)).toThrow(FuzzyDateDeserializationError);
+    });
+
+    test.each([
+      '["2023-05-01 00:00:00","2023-06-01 00:00:00")',
+      '[2023-05-01T00:00:00.000000, 2023-06-01T00:00:00.000000)',
+      '  ["2023-05-01 00:00:00","2023-05-31 23:59:59.999"]  ',
+      '("2023-04-30 23:59:59.999","2023-06-01 00:00:00")'
+    ])("should read the bounds of %s", literal => {
+      expect(fromTsRange(literal).toString()).toBe("2023-05");
+    });
+
+    test.each([
+      { description: "an empty range", literal: 'empty' },
+      { description: "an unbounded range", literal: '["2023-05-01 00:00:00",)' },
+      { description: "an infinite bound", literal: '["2023-05-01 00:00:00",infinity)' },
+      { description: "an invalid timestamp", literal: '["2023-02-30 00:00:00","2023-03-01 00:00:00")' },
+      { description: "a range no FuzzyDate covers", literal: '["2023-05-01 00:00:00","2023-05-03 00:00:00")' },
+      { description: "a tolerated range", literal: toTsRange(date("1850±P5Y")) },
+      { description: "a bound with microseconds", literal: '["2023-05-01 00:00:00.000001","2023-06-01 00:00:00")' },
+      { description: "a bound with a fraction of a millisecond", literal: '["2023-05-01 00:00:00","2023-05-31 23:59:59.9995"]' }
+    ])("should reject $description", ({ literal }) => {
+      expect(() => fromTsRange(literal)).toThrow(FuzzyDateDeserializationError);
+    });
+  });
+});
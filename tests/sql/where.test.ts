@@ -0,0 +1,53 @@
+import { FuzzyDate } from "../../src/fuzzyDate";
+import { toSqlBounds, whereDefinitelyBefore, whereDefinitelyWithin, wherePossiblyOverlaps } from "../../src/sql";
+
+describe("SQL WHERE clauses", () => {
+  const may = FuzzyDate.fromString("2023-05");
+  const { earliest, latest } = may.toEpochRange();
+
+  describe("postgres", () => {
+    test("should compare the columns with timestamp parameters", () => {
+      expect(whereDefinitelyWithin(may, { dialect: 'postgres' })).toEqual({
+        sql: '"earliest" >= $1::timestamp AND "latest" <= $2::timestamp',
+        params: ["2023-05-01 00:00:00.000", "2023-05-31 23:59:59.999"]
+      });
+      expect(wherePossiblyOverlaps(may, { dialect: 'postgres' })).toEqual({
+        sql: '"earliest" <= $1::timestamp AND "latest" >= $2::timestamp',
+        params: ["2023-05-31 23:59:59.999", "2023-05-01 00:00:00.000"]
+      });
+      expect(whereDefinitelyBefore(may, { dialect: 'postgres' })).toEqual({
+        sql: '"latest" < $1::timestamp',
+        params: ["2023-05-01 00:00:00.000"]
+      });
+    });
+
+    test("should number the placeholders from firstParameter", () => {
+      expect(wherePossiblyOverlaps(may, { dialect: 'postgres', firstParameter: 3 }).sql)
+        .toBe('"earliest" <= $3::timestamp AND "latest" >= $4::timestamp');
+    });
+  });
+
+  describe("sqlite", () => {
+    test("should compare the columns with millisecond parameters", () => {
+      expect(whereDefinitelyWithin(may, { dialect: 'sqlite' })).toEqual({
+        sql: '"earliest" >= ? AND "latest" <= ?',
+        params: [earliest, latest]
+      });
+      expect(wherePossiblyOverlaps(may, { dialect: 'sqlite' })).toEqual({
+        sql: '"earliest" <= ? AND "latest" >= ?',
+        params: [latest, earliest]
+      });
+      expect(whereDefinitelyBefore(may, { dialect: 'sqlite' })).toEqual({ sql: '"latest" < ?', params: [earliest] });
+    });
+  });
+
+  test("should quote the columns", () => {
+    const clause = whereDefinitelyBefore(may, { dialect: 'sqlite', latest: 'events.latest"; DROP TABLE events; --' });
+    expect(clause.sql).toBe('"events"."latest""; DROP TABLE events; --" < ?');
+  });
+
+  test("should write bounds matching the parameters", () => {
+    expect(toSqlBounds(may, 'postgres')).toEqual({ earliest: "2023-05-01 00:00:00.000", latest: "2023-05-31 23:59:59.999" });
+    expect(toSqlBounds(may, 'sqlite')).toEqual({ earliest, latest });
+  });
+});